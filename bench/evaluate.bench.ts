@@ -0,0 +1,155 @@
+import { createLookupMap } from '#/lib/create-cubic-lookup-map'
+import {
+  createLookupHint,
+  getValueFromSegments,
+} from '#/lib/get-value-from-segments'
+import { getExactValueFromAbsoluteAnchors } from '#/lib/solve-bezier'
+import { Anchor, Segment, Vector } from '#/types'
+import { bench, describe } from 'vitest'
+
+/**
+ * Compares the evaluation of many tracks per frame with the previous implementation:
+ * a linear scan over the segments and over 30 `Vector` samples per segment.
+ *
+ * Run with `npm run bench`.
+ */
+
+const TRACKS = 300
+const ANCHORS = 20
+const FRAMES = 60
+/** Frames of a slow playback, where consecutive frames mostly fall in the same or the next sample. */
+const DENSE_FRAMES = 2000
+const DURATION = ANCHORS * 100
+
+function createAbsoluteAnchors(seed: number): Array<Anchor> {
+  return Array.from({ length: ANCHORS }, (_, index) => {
+    const x = index * 100
+    const y = Math.sin(seed + index) * 500
+    return [
+      { x, y },
+      {
+        pre: index > 0 ? { x: x - 50, y: y + 100 } : undefined,
+        post: index < ANCHORS - 1 ? { x: x + 50, y: y - 100 } : undefined,
+      },
+    ]
+  })
+}
+
+const tracks = Array.from({ length: TRACKS }, (_, index) =>
+  createAbsoluteAnchors(index)
+)
+
+const segments: Array<Array<Segment>> = tracks.map((anchors) =>
+  anchors.slice(0, -1).map((anchor, index) => ({
+    range: [anchor[0].x, anchors[index + 1][0].x],
+    ...createLookupMap(anchor, anchors[index + 1]),
+  }))
+)
+
+const hints = tracks.map(() => createLookupHint())
+
+/**********************************************************************************/
+/*                                                                                */
+/*                             Previous implementation                            */
+/*                                                                                */
+/**********************************************************************************/
+
+type LegacySegment = { range: number[]; map: Vector[] }
+
+const legacySegments: Array<Array<LegacySegment | undefined>> = segments.map(
+  (segments, track) => [
+    ...segments.map(({ range }, index) => {
+      // 30 samples per segment, as the previous `createLookupMap`
+      const { xs, ys } = createLookupMap(
+        tracks[track][index],
+        tracks[track][index + 1],
+        30
+      )
+      return {
+        range,
+        map: Array.from(xs, (x, index) => ({ x, y: ys[index] })),
+      }
+    }),
+    // The previous memo ended with an undefined segment, sliced off on every call
+    undefined,
+  ]
+)
+
+function legacyGetValue(
+  lookupMapSegments: Array<LegacySegment | undefined>,
+  time: number
+) {
+  const segments = lookupMapSegments.slice(0, -1) as Array<LegacySegment>
+  const segment = segments.find(
+    (segment) => segment.range[0] <= time && time <= segment.range[1]
+  )
+  if (!segment) return 0
+  for (let i = 0; i < segment.map.length - 1; i++) {
+    const current = segment.map[i]
+    const next = segment.map[i + 1]
+    if (current.x <= time && time <= next.x) {
+      const m = (current.y - next.y) / (current.x - next.x)
+      return m * time + current.y - m * current.x
+    }
+  }
+  return 0
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                    Benchmarks                                  */
+/*                                                                                */
+/**********************************************************************************/
+
+function playback(
+  evaluate: (track: number, time: number) => number,
+  frames = FRAMES
+) {
+  let sum = 0
+  for (let frame = 0; frame < frames; frame++) {
+    const time = (frame / frames) * DURATION
+    for (let track = 0; track < TRACKS; track++) {
+      sum += evaluate(track, time)
+    }
+  }
+  return sum
+}
+
+describe(`${TRACKS} tracks, ${FRAMES} frames of forward playback`, () => {
+  bench('previous: linear scans', () => {
+    playback((track, time) => legacyGetValue(legacySegments[track], time))
+  })
+
+  bench('lookup: binary search', () => {
+    playback((track, time) => getValueFromSegments(segments[track], time))
+  })
+
+  bench('lookup: binary search with hint', () => {
+    playback((track, time) =>
+      getValueFromSegments(segments[track], time, hints[track])
+    )
+  })
+
+  bench('exact', () => {
+    playback((track, time) =>
+      getExactValueFromAbsoluteAnchors(tracks[track], time)
+    )
+  })
+})
+
+describe(`${TRACKS} tracks, ${DENSE_FRAMES} frames of forward playback`, () => {
+  bench('lookup: binary search', () => {
+    playback(
+      (track, time) => getValueFromSegments(segments[track], time),
+      DENSE_FRAMES
+    )
+  })
+
+  bench('lookup: binary search with hint', () => {
+    playback(
+      (track, time) =>
+        getValueFromSegments(segments[track], time, hints[track]),
+      DENSE_FRAMES
+    )
+  })
+})
@@ -1,23 +1,56 @@
 import { createClock } from '#/create-clock'
+import { createComposition } from '#/create-composition'
+import { createColorTimeline } from '#/create-compound-timeline'
+import { createDiscreteTimeline } from '#/create-discrete-timeline'
+import { createHistory } from '#/create-history'
+import { createMarkerTimeline } from '#/create-marker-timeline'
 import { createTimeline } from '#/create-timeline'
-import { Sheet } from '#/sheet'
-import { createSignal, onCleanup } from 'solid-js'
+import { Ruler } from '#/ruler'
+import { Sheet, useSheet } from '#/sheet'
+import { createSignal, For, onCleanup } from 'solid-js'
 
-function Circle(props: { top: number; left: number }) {
+function Circle(props: {
+  top: number
+  left: number
+  color: string
+  label?: string
+}) {
   return (
     <div
       style={{
         position: 'fixed',
         'border-radius': '50%',
-        background: 'blue',
+        background: props.color,
         height: '100px',
         width: '100px',
         transform: `translate(calc(${props.left}px - 50%), calc(${props.top}px - 50%))`,
+        display: 'flex',
+        'align-items': 'center',
+        'justify-content': 'center',
+        color: 'white',
       }}
-    />
+    >
+      {props.label}
+    </div>
+  )
+}
+
+function FpsSelect() {
+  const { fps, setFps } = useSheet()
+  return (
+    <select value={fps()} onChange={(e) => setFps(+e.currentTarget.value)}>
+      <For each={[24, 30, 60]}>
+        {(fps) => <option value={fps}>{fps} fps</option>}
+      </For>
+    </select>
   )
 }
 
+function ZoomToFitButton() {
+  const { zoomToFit } = useSheet()
+  return <button onClick={zoomToFit}>fit</button>
+}
+
 function App() {
   const [domRect, setDomRect] = createSignal<DOMRect>()
   const [time, clock] = createClock({
@@ -27,7 +60,10 @@ function App() {
     speed: 0.1,
   })
 
+  const history = createHistory()
+
   const TopTimeline = createTimeline({
+    history,
     initial: [
       [{ x: 0, y: 0 }],
       [
@@ -59,6 +95,7 @@ function App() {
   })
 
   const LeftTimeline = createTimeline({
+    history,
     initial: [
       [{ x: 0, y: 0 }],
       [{ x: 300, y: 750 }],
@@ -85,6 +122,48 @@ function App() {
     ],
   })
 
+  const ColorTimeline = createColorTimeline({
+    history,
+    initial: [
+      { time: 0, color: '#0000ff' },
+      { time: 800, color: '#ffff00' },
+      { time: 1600, color: '#ff0000' },
+    ],
+  })
+
+  const LabelTimeline = createDiscreteTimeline({
+    history,
+    values: ['start', 'middle', 'end'],
+    initial: [
+      { time: 0, value: 'start' },
+      { time: 600, value: 'middle' },
+      { time: 1200, value: 'end' },
+    ],
+  })
+
+  const MarkerTimeline = createMarkerTimeline({
+    history,
+    initial: [
+      { time: 400, name: 'intro' },
+      { time: 1000, name: 'drop' },
+    ],
+  })
+  const Composition = createComposition({
+    history,
+    sources: { move: { top: TopTimeline, left: LeftTimeline } },
+    clips: [
+      { name: 'move', source: 'move', out: 1600 },
+      {
+        name: 'move fast',
+        source: 'move',
+        start: 200,
+        rate: 4,
+        out: 800,
+        loops: 3,
+      },
+    ],
+  })
+
   function onRef(element: HTMLDivElement) {
     function updateDomRect() {
       setDomRect(element.getBoundingClientRect())
@@ -93,7 +172,7 @@ function App() {
     observer.observe(element)
     updateDomRect()
 
-    clock.start()
+    clock.play()
 
     onCleanup(() => observer.disconnect())
   }
@@ -103,9 +182,15 @@ function App() {
       <Circle
         left={LeftTimeline.getValue(time())}
         top={TopTimeline.getValue(time())}
+        color={ColorTimeline.getCss(time())}
+        label={LabelTimeline.getValue(time())}
       />
       <Sheet
-        time={time()}
+        clock={[time, clock]}
+        fps={30}
+        snapToFrames
+        smoothZoom
+        history={history}
         style={{
           display: 'flex',
           'flex-direction': 'column',
@@ -121,8 +206,27 @@ function App() {
             <LeftTimeline.Value.Input decimals={2} style={{ width: '75px' }} />
             <LeftTimeline.Value.Button>+</LeftTimeline.Value.Button>
           </LeftTimeline.Value>
+          <LabelTimeline.Value>
+            <LabelTimeline.Value.Input />
+            <LabelTimeline.Value.Button>+</LabelTimeline.Value.Button>
+          </LabelTimeline.Value>
+          <FpsSelect />
+          <ZoomToFitButton />
+          <button onClick={clock.toggle}>
+            {clock.isPlaying() ? 'pause' : 'play'}
+          </button>
+          <button onClick={() => clock.setSpeed(clock.speed() * -1)}>
+            reverse
+          </button>
+          <button disabled={!history.canUndo()} onClick={history.undo}>
+            undo
+          </button>
+          <button disabled={!history.canRedo()} onClick={history.redo}>
+            redo
+          </button>
         </div>
 
+        <Ruler style={{ height: '24px' }} />
         <TopTimeline.Component
           min={0}
           max={window.innerHeight}
@@ -133,6 +237,10 @@ function App() {
           max={window.innerWidth}
           style={{ height: '50px' }}
         />
+        <ColorTimeline.Component style={{ height: '50px' }} />
+        <LabelTimeline.Component style={{ height: '24px' }} />
+        <MarkerTimeline.Component style={{ height: '24px' }} />
+        <Composition.Component />
       </Sheet>
     </div>
   )
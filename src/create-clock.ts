@@ -1,45 +1,207 @@
-import { createSignal } from 'solid-js'
+import { Accessor, batch, createSignal, mergeProps } from 'solid-js'
+import { applyClockRange, ClockLeg, ClockLoop } from './lib/clock-range'
 import { defaultProps } from './utils/default-props'
 
-export function createClock(options?: {
+export type ClockControls = {
+  play(): void
+  pause(): void
+  /** Pauses when playing, plays otherwise. */
+  toggle(): void
+  isPlaying: Accessor<boolean>
+  /** Sets the time, clamped to the in/out range of the clock. */
+  seek(time: number): void
+  /** Speed of playback, negative speeds play backwards. */
+  speed: Accessor<number>
+  setSpeed(speed: number): void
+  /** Advances the time with `delta` milliseconds, whether the clock is playing or not. */
+  tick(delta: number): void
+  /** Advances the time with an amount of frames of the frame rate of the clock. */
+  step(frames?: number): void
+  /**
+   * Legs travelled by the time during its last change, in order.
+   * Wrapping around with `loop` or bouncing with `ping-pong` splits a change into multiple legs.
+   */
+  legs: Accessor<Array<ClockLeg>>
+}
+
+export type Clock = readonly [Accessor<number>, ClockControls]
+
+/**
+ * Schedules the frames of a clock, p.ex `requestAnimationFrame`.
+ * The callback receives the current time in milliseconds.
+ */
+export type TimeSource = {
+  request(callback: (now: number) => void): number
+  cancel(handle: number): void
+}
+
+export const ANIMATION_FRAME_TIME_SOURCE: TimeSource = {
+  request: (callback) => requestAnimationFrame(callback),
+  cancel: (handle) => cancelAnimationFrame(handle),
+}
+
+/** Never schedules a frame: time only advances with `tick` and `step`. */
+export const MANUAL_TIME_SOURCE: TimeSource = {
+  request: () => -1,
+  cancel: () => {},
+}
+
+/** Frame rate of `step` when the clock has no `fps`. */
+const DEFAULT_STEP_FPS = 60
+/** Tolerance of the quantisation to frames, so accumulated rounding errors do not drop a frame. */
+const FRAME_EPSILON = 1e-9
+
+export type ClockOptions = {
+  /** Initial time, defaults to the in point. */
   time?: number
-  max?: number
+  /** In point of the playback range. */
   min?: number
+  /** Out point of the playback range, playback is unbounded when undefined. */
+  max?: number
+  /** Initial speed, defaults to 1. */
   speed?: number
-}) {
+  /** What happens at the end of the playback range, defaults to `loop`. */
+  loop?: ClockLoop
+  /** Called when a clock with `loop: 'once'` reaches the end of its range. */
+  onEnded?(): void
+  /**
+   * Quantises the time to frames of `1000 / fps` time units.
+   * The time is accumulated unquantised, so frames do not drift.
+   */
+  fps?: number
+  /** Schedules the frames while playing, defaults to `requestAnimationFrame`. */
+  timeSource?: TimeSource
+}
+
+/**
+ * Creates a clock that accumulates elapsed time while playing.
+ * Pausing and playing again continues from the same time.
+ * The options are read every frame, so they can be reactive getters.
+ */
+export function createClock(options?: ClockOptions): Clock {
   const config = defaultProps(options || {}, {
-    time: 0,
     min: 0,
     speed: 1,
+    loop: 'loop',
+    timeSource: ANIMATION_FRAME_TIME_SOURCE,
   })
 
-  const [time, setTime] = createSignal(performance.now())
+  // Unquantised time
+  let elapsed = config.time ?? config.min
+
+  const [time, setTime] = createSignal(quantise(elapsed))
+  const [speed, setSpeed] = createSignal(config.speed)
+  const [isPlaying, setIsPlaying] = createSignal(false)
+  const [legs, setLegs] = createSignal<Array<ClockLeg>>([])
+
+  // Direction of ping-pong playback, multiplied with the speed
+  let direction: 1 | -1 = 1
+  let previous: number | undefined
+  let frame: number | undefined
+
+  function quantise(value: number) {
+    if (!config.fps) return value
+    const frame = Math.floor((value * config.fps) / 1000 + FRAME_EPSILON)
+    return (frame * 1000) / config.fps
+  }
 
-  let shouldLoop = true
-  function loop() {
-    if (!shouldLoop) return
-    requestAnimationFrame(loop)
-    if (config.max) {
-      setTime(
-        ((performance.now() * config.speed) % (config.max - config.min)) +
-          config.min
+  function setElapsed(value: number, travelled?: Array<ClockLeg>) {
+    const from = quantise(elapsed)
+    elapsed = value
+    const to = quantise(value)
+    batch(() => {
+      setTime(to)
+      // The legs start and end at the quantised times, as reported by `time`
+      setLegs(
+        (travelled || [{ from, to, direction: to >= from ? 1 : -1 }]).map(
+          (leg, index, legs) => ({
+            ...leg,
+            from: index === 0 ? from : leg.from,
+            to: index === legs.length - 1 ? to : leg.to,
+          })
+        )
       )
-    } else {
-      setTime(performance.now() * config.speed + config.min)
+    })
+  }
+
+  /** Advances time with `delta` milliseconds. */
+  function tick(delta: number) {
+    const velocity = speed() * direction
+    const result = applyClockRange(elapsed, elapsed + delta * velocity, config)
+
+    if (result.reversed) direction = direction === 1 ? -1 : 1
+
+    // A clock resting at the end of its range does not end again
+    const ended = result.ended && result.time !== elapsed
+
+    batch(() => {
+      setElapsed(result.time, result.legs)
+      if (result.ended) pause()
+    })
+
+    if (ended) config.onEnded?.()
+  }
+
+  function loop(now: number) {
+    if (!isPlaying()) return
+    if (previous !== undefined) tick(now - previous)
+    previous = now
+    if (isPlaying()) frame = config.timeSource.request(loop)
+  }
+
+  function play() {
+    if (isPlaying()) return
+    // Playing a clock that ended restarts it
+    if (config.loop === 'once' && config.max !== undefined) {
+      if (speed() > 0 && elapsed >= config.max) setElapsed(config.min)
+      if (speed() < 0 && elapsed <= config.min) setElapsed(config.max)
     }
+    setIsPlaying(true)
+    previous = undefined
+    frame = config.timeSource.request(loop)
+  }
+
+  function pause() {
+    setIsPlaying(false)
+    if (frame !== undefined) config.timeSource.cancel(frame)
+    frame = undefined
+  }
+
+  function seek(value: number) {
+    const max = config.max ?? Infinity
+    setElapsed(Math.max(config.min, Math.min(max, value)))
   }
 
   return [
     time,
     {
-      set: setTime,
-      start: () => {
-        shouldLoop = true
-        loop()
-      },
-      stop: () => {
-        shouldLoop = false
+      play,
+      pause,
+      toggle: () => (isPlaying() ? pause() : play()),
+      isPlaying,
+      seek,
+      speed,
+      setSpeed: (value: number) => {
+        setSpeed(value)
+        direction = 1
       },
+      tick,
+      step: (frames = 1) =>
+        tick((frames * 1000) / (config.fps || DEFAULT_STEP_FPS)),
+      legs,
     },
   ] as const
 }
+
+/**
+ * Creates a deterministic clock that only advances with `tick` and `step`, p.ex for offline rendering
+ * or tests. It does not depend on the DOM and has the same signature as `createClock`.
+ */
+export function createManualClock(
+  options?: Omit<ClockOptions, 'timeSource'>
+): Clock {
+  // mergeProps keeps the getters of reactive options
+  return createClock(
+    mergeProps(options || {}, { timeSource: MANUAL_TIME_SOURCE })
+  )
+}
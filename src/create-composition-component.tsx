@@ -0,0 +1,135 @@
+import clsx from 'clsx'
+import { ComponentProps, Index, splitProps } from 'solid-js'
+import type { CompositionApi } from './create-composition'
+import { getClipEnd, getClipLoopDuration } from './lib/clip-time'
+import { SNAP_DISTANCE, useSheet } from './sheet'
+import styles from './timeline.module.css'
+import { createTrackSurface } from './track-surface'
+import { pointerHelper } from './utils/pointer-helper'
+
+/** Height in pixels of the row of a clip. */
+const CLIP_HEIGHT = 24
+/** Maximum amount of loop dividers drawn in a clip. */
+const MAX_LOOP_DIVIDERS = 100
+
+/**
+ * Component of a composition, with a row per clip.
+ * Dragging the block of a clip moves it in time, snapping to the snap targets of the `Sheet`.
+ */
+export function createCompositionComponent({
+  clips,
+  moveClip,
+  retime,
+  history,
+}: CompositionApi) {
+  return function Composition(props: ComponentProps<'svg'>) {
+    const {
+      setIsDraggingHandle,
+      zoomX,
+      snap,
+      addFrameRateConverter,
+      addFitTargets,
+      linkHistory,
+    } = useSheet()
+    const [, rest] = splitProps(props, ['children', 'class'])
+
+    linkHistory(history)
+    addFrameRateConverter(retime)
+    addFitTargets(() =>
+      clips().flatMap((clip) => [clip.start, getClipEnd(clip)])
+    )
+
+    const surface = createTrackSurface()
+
+    const width = () => surface.domRect()?.width || 0
+    const projectX = surface.projectX
+
+    async function onClipDragStart(event: PointerEvent, name: string) {
+      const clip = clips().find((clip) => clip.name === name)!
+      const initialStart = clip.start
+
+      setIsDraggingHandle(true)
+
+      await history.transaction(async () => {
+        const { cancelled } = await pointerHelper(event, ({ delta, event }) => {
+          const start = initialStart - delta.x / zoomX()
+          moveClip(
+            name,
+            event.altKey ? start : snap(start, SNAP_DISTANCE / zoomX())
+          )
+        })
+        if (cancelled) history.rollback()
+      })
+
+      setIsDraggingHandle(false)
+    }
+
+    return (
+      <svg
+        ref={surface.ref}
+        width="100%"
+        height={clips().length * CLIP_HEIGHT}
+        class={clsx(props.class, styles.timeline)}
+        {...rest}
+        onPointerDown={surface.onPointerDown}
+        onWheel={surface.onWheel}
+      >
+        <Index each={clips()}>
+          {(clip, index) => {
+            const x = () => projectX(clip().start)
+            const end = () => {
+              const end = getClipEnd(clip())
+              return end === Infinity ? width() : projectX(end)
+            }
+            const dividers = () => {
+              const duration = getClipLoopDuration(clip()) * zoomX()
+              if (!isFinite(duration) || duration <= 0) return []
+              const amount = Math.min(
+                MAX_LOOP_DIVIDERS,
+                Math.floor((end() - x()) / duration)
+              )
+              return Array.from(
+                { length: Math.max(0, amount - 1) },
+                (_, loop) => x() + (loop + 1) * duration
+              )
+            }
+            return (
+              <g class={styles.clip}>
+                <rect
+                  class={styles.clipBlock}
+                  x={x()}
+                  y={index * CLIP_HEIGHT + 1}
+                  width={Math.max(0, end() - x())}
+                  height={CLIP_HEIGHT - 2}
+                  style={{ cursor: 'move' }}
+                  onPointerDown={(event) => onClipDragStart(event, clip().name)}
+                />
+                <Index each={dividers()}>
+                  {(divider) => (
+                    <line
+                      class={styles.clipLoop}
+                      x1={divider()}
+                      x2={divider()}
+                      y1={index * CLIP_HEIGHT + 1}
+                      y2={(index + 1) * CLIP_HEIGHT - 1}
+                    />
+                  )}
+                </Index>
+                <text
+                  class={styles.clipLabel}
+                  x={x() + 4}
+                  y={(index + 0.5) * CLIP_HEIGHT}
+                >
+                  {clip().name}
+                  {clip().rate !== 1 ? ` ×${clip().rate}` : ''}
+                </text>
+              </g>
+            )
+          }}
+        </Index>
+        <surface.Indicators height={clips().length * CLIP_HEIGHT} />
+        {props.children}
+      </svg>
+    )
+  }
+}
@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { createRoot } from 'solid-js'
+import { describe, expect, it } from 'vitest'
+import { createComposition } from './create-composition'
+import { createTimeline } from './create-timeline'
+
+const createSources = () => ({
+  ramp: {
+    value: createTimeline({
+      initial: [[{ x: 0, y: 0 }], [{ x: 10, y: 10 }]],
+    }),
+  },
+})
+
+describe('createComposition', () => {
+  it('maps the time of the composition to the local time of its clips', () => {
+    createRoot((dispose) => {
+      const composition = createComposition({
+        sources: createSources(),
+        clips: [
+          { source: 'ramp', start: 100, out: 10 },
+          { source: 'ramp', name: 'fast', rate: 2, in: 2, out: 6, loops: 2 },
+        ],
+      })
+      expect(composition.getLocalTime('ramp', 105)).toBe(5)
+      expect(composition.getLocalTime('fast', 1)).toBe(4)
+      expect(composition.getLocalTime('fast', 3)).toBe(4)
+      expect(composition.isActive('ramp', 99)).toBe(false)
+      expect(composition.isActive('ramp', 110)).toBe(true)
+      expect(composition.isActive('fast', 4.5)).toBe(false)
+      expect(composition.duration()).toBe(110)
+      expect(composition.getValue(105)).toEqual({
+        ramp: { value: 5 },
+        fast: { value: 6 },
+      })
+      dispose()
+    })
+  })
+
+  it('throws on clips with the same name', () => {
+    createRoot((dispose) => {
+      expect(() =>
+        createComposition({
+          sources: createSources(),
+          clips: [
+            { source: 'ramp', out: 10 },
+            { source: 'ramp', start: 20, out: 10 },
+          ],
+        })
+      ).toThrow(/already contains a clip named ramp/)
+
+      const composition = createComposition({
+        sources: createSources(),
+        clips: [{ source: 'ramp', out: 10 }],
+      })
+      expect(() => composition.addClip('ramp', { out: 10 })).toThrow(
+        /already contains a clip named ramp/
+      )
+      expect(() => composition.getLocalTime('other', 0)).toThrow(
+        /does not contain a clip named other/
+      )
+      dispose()
+    })
+  })
+
+  it('keeps short clips from collapsing when retimed', () => {
+    createRoot((dispose) => {
+      const composition = createComposition({
+        sources: createSources(),
+        clips: [{ source: 'ramp', start: 3, in: 10, out: 12 }],
+      })
+      // Snap to a grid of 10 while keeping sorted times apart
+      composition.retime((times) => {
+        let previous = -Infinity
+        return times.map((time) => {
+          const snapped = Math.max(Math.round(time / 10), previous + 1)
+          previous = snapped
+          return snapped * 10
+        })
+      })
+      expect(composition.clips()[0]).toEqual(
+        expect.objectContaining({ start: 0, in: 10, out: 20 })
+      )
+      dispose()
+    })
+  })
+})
@@ -0,0 +1,206 @@
+import { Accessor, createMemo } from 'solid-js'
+import { SetStoreFunction } from 'solid-js/store'
+import { createCompositionComponent } from './create-composition-component'
+import {
+  createLinkableHistory,
+  createRecordedStore,
+  History,
+} from './create-history'
+import { ClipTiming, getClipEnd, mapClipTime } from './lib/clip-time'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                               Create Composition                               */
+/*                                                                                */
+/**********************************************************************************/
+
+/** Anything evaluated over time: a timeline, a discrete timeline or a composition. */
+export type Composable<TValue = unknown> = {
+  getValue(time: number): TValue
+}
+
+/** A group of timelines, placed together as a clip. */
+export type ClipSource = Record<string, Composable>
+
+export type ClipValues<TSource extends ClipSource> = {
+  [TKey in keyof TSource]: ReturnType<TSource[TKey]['getValue']>
+}
+
+export type Clip = ClipTiming & {
+  /** Unique name of the clip. */
+  name: string
+  /** Key of the source of the clip. */
+  source: string
+}
+
+export type CompositionApi<
+  TSources extends Record<string, ClipSource> = Record<string, ClipSource>
+> = {
+  clips: Accessor<Array<Clip>>
+  setClips: SetStoreFunction<Array<Clip>>
+  sources: TSources
+  /** Places a source in the composition, the name defaults to the name of the source. */
+  addClip(
+    source: keyof TSources & string,
+    timing: Partial<ClipTiming> & Pick<ClipTiming, 'out'>,
+    name?: string
+  ): void
+  deleteClip(name: string): void
+  /** Moves the start of a clip. */
+  moveClip(name: string, start: number): void
+  setClipTiming(name: string, timing: Partial<ClipTiming>): void
+  /** Maps time of the composition to the local time of a clip. */
+  getLocalTime(name: string, time: number): number
+  /** Whether the clip is playing at `time`. */
+  isActive(name: string, time: number): boolean
+  /**
+   * Values of the sources of all the clips at `time`, keyed by clip name.
+   * Nested compositions map the time further down.
+   */
+  getValue(time: number): Record<string, ClipValues<TSources[keyof TSources]>>
+  /** End of the last clip, `Infinity` when a clip loops forever. */
+  duration: Accessor<number>
+  /**
+   * Maps the start, in and out of the clips through `convert`, p.ex when the frame rate of the sheet changes.
+   * The starts of the clips are not sorted, so each start is converted on its own.
+   * The in and out of a clip are converted together, so `out` stays after `in`.
+   */
+  retime(convert: (times: Array<number>) => Array<number>): void
+  history: History
+}
+
+const DEFAULT_TIMING: Omit<ClipTiming, 'out'> = {
+  start: 0,
+  rate: 1,
+  in: 0,
+  loops: 1,
+}
+
+/**
+ * Creates a composition: groups of timelines (sources) placed in time as clips,
+ * each with its own start offset, playback rate, trim range and loop count.
+ * The same source can be placed multiple times. A composition is itself `Composable`,
+ * so compositions can be used as sources of other compositions.
+ */
+export function createComposition<
+  TSources extends Record<string, ClipSource>
+>(config: {
+  sources: TSources
+  /** Clips of the composition, their names (defaulting to their source) have to be unique. */
+  clips?: Array<
+    Partial<ClipTiming> &
+      Pick<ClipTiming, 'out'> & {
+        source: keyof TSources & string
+        name?: string
+      }
+  >
+  history?: History
+}) {
+  const history = config.history || createLinkableHistory()
+
+  const initial = (config.clips || []).map((clip) => ({
+    ...DEFAULT_TIMING,
+    ...clip,
+    name: clip.name ?? clip.source,
+  }))
+  initial.forEach(({ name }, index) => {
+    if (initial.findIndex((clip) => clip.name === name) !== index) {
+      throw `Composition already contains a clip named ${name}`
+    }
+  })
+
+  // Every change to the clips is recorded in the history
+  const [clips, setClips] = createRecordedStore<Array<Clip>>(initial, history)
+
+  function getClip(name: string) {
+    const clip = clips.find((clip) => clip.name === name)
+    if (!clip) {
+      throw `Composition does not contain a clip named ${name}`
+    }
+    return clip
+  }
+
+  function addClip(
+    source: keyof TSources & string,
+    timing: Partial<ClipTiming> & Pick<ClipTiming, 'out'>,
+    name = source
+  ) {
+    if (clips.some((clip) => clip.name === name)) {
+      throw `Composition already contains a clip named ${name}`
+    }
+    setClips(clips.length, { ...DEFAULT_TIMING, ...timing, name, source })
+  }
+
+  function deleteClip(name: string) {
+    setClips((clips) => clips.filter((clip) => clip.name !== name))
+  }
+
+  function setClipTiming(name: string, timing: Partial<ClipTiming>) {
+    setClips((clip) => clip.name === name, timing)
+  }
+
+  function moveClip(name: string, start: number) {
+    setClipTiming(name, { start })
+  }
+
+  function getLocalTime(name: string, time: number) {
+    return mapClipTime(getClip(name), time).time
+  }
+
+  function isActive(name: string, time: number) {
+    return mapClipTime(getClip(name), time).active
+  }
+
+  function getValue(time: number) {
+    return Object.fromEntries(
+      clips.map((clip) => {
+        const local = mapClipTime(clip, time).time
+        const source = config.sources[clip.source]
+        return [
+          clip.name,
+          Object.fromEntries(
+            Object.entries(source).map(([key, composable]) => [
+              key,
+              composable.getValue(local),
+            ])
+          ),
+        ]
+      })
+    ) as Record<string, ClipValues<TSources[keyof TSources]>>
+  }
+
+  function retime(convert: (times: Array<number>) => Array<number>) {
+    setClips((clips) =>
+      clips.map((clip) => {
+        // Converted together, so a short clip does not collapse to zero length
+        const [_in, out] = convert([clip.in, clip.out])
+        return { ...clip, start: convert([clip.start])[0], in: _in, out }
+      })
+    )
+  }
+
+  const duration = createMemo(() =>
+    clips.reduce((duration, clip) => Math.max(duration, getClipEnd(clip)), 0)
+  )
+
+  const api: CompositionApi<TSources> = {
+    clips: () => clips,
+    setClips,
+    sources: config.sources,
+    addClip,
+    deleteClip,
+    moveClip,
+    setClipTiming,
+    getLocalTime,
+    isActive,
+    getValue,
+    duration,
+    retime,
+    history,
+  }
+
+  return {
+    ...api,
+    Component: createCompositionComponent(api),
+  }
+}
@@ -0,0 +1,146 @@
+import clsx from 'clsx'
+import { ComponentProps, For, Index, splitProps } from 'solid-js'
+import { Channel, CompoundApi } from './create-compound-timeline'
+import { SNAP_DISTANCE, useSheet } from './sheet'
+import styles from './timeline.module.css'
+import { createTrackSurface } from './track-surface'
+import { pointerHelper } from './utils/pointer-helper'
+
+/**
+ * Timeline component of a compound timeline.
+ * Every channel is drawn as its own colored curve, normalized from its `min` and `max` to the height of the component.
+ * Dragging a keyframe horizontally moves it in all channels, dragging it vertically only changes the dragged channel.
+ */
+export function createCompoundTimelineComponent<TName extends string>({
+  channels,
+  timelines,
+  times,
+  addKeyframe,
+  deleteKeyframe,
+  moveKeyframe,
+  setKeyframeValue,
+  retime,
+  history,
+}: CompoundApi<TName>) {
+  return function CompoundTimeline(props: ComponentProps<'svg'>) {
+    const {
+      setIsDraggingHandle,
+      zoomX,
+      pan,
+      snap,
+      addFrameRateConverter,
+      addFitTargets,
+      linkHistory,
+    } = useSheet()
+    const [, rest] = splitProps(props, ['children', 'class'])
+
+    linkHistory(history)
+    addFrameRateConverter(retime)
+    addFitTargets(() => times())
+
+    const surface = createTrackSurface({ onAdd: (time) => addKeyframe(time) })
+
+    const height = () => surface.domRect()?.height || 0
+    const zoomY = (channel: Channel<TName>) =>
+      height() / (channel.max - channel.min || 1)
+
+    const projectX = surface.projectX
+    const projectY = (channel: Channel<TName>, y: number) =>
+      (y - channel.min) * zoomY(channel)
+
+    async function onKeyframeDragStart(
+      event: PointerEvent,
+      channel: Channel<TName>,
+      index: number
+    ) {
+      const initialTime = times()[index]
+      const initialValue = timelines[channel.name].anchors()[index][0].y
+
+      setIsDraggingHandle(true)
+
+      await history.transaction(async () => {
+        const { cancelled } = await pointerHelper(event, ({ delta, event }) => {
+          const time = initialTime - delta.x / zoomX()
+          moveKeyframe(
+            index,
+            event.altKey ? time : snap(time, SNAP_DISTANCE / zoomX())
+          )
+          setKeyframeValue(
+            index,
+            channel.name,
+            initialValue - delta.y / zoomY(channel)
+          )
+        })
+        if (cancelled) history.rollback()
+      })
+
+      setIsDraggingHandle(false)
+    }
+
+    return (
+      <svg
+        ref={surface.ref}
+        width="100%"
+        height="100%"
+        class={clsx(props.class, styles.timeline)}
+        {...rest}
+        onPointerDown={surface.onPointerDown}
+        onPointerMove={surface.onPointerMove}
+        onPointerLeave={surface.onPointerLeave}
+        onDblClick={surface.onDblClick}
+        onWheel={surface.onWheel}
+      >
+        <For each={channels}>
+          {(channel) => (
+            <path
+              class={styles.path}
+              d={timelines[channel.name].d({
+                zoom: { x: zoomX(), y: zoomY(channel) },
+                origin: { x: pan(), y: -channel.min },
+              })}
+              style={{ stroke: channel.color, 'pointer-events': 'none' }}
+            />
+          )}
+        </For>
+        <surface.Indicators height={height()} />
+        <Index each={times()}>
+          {(keyframe, index) => (
+            <For each={channels}>
+              {(channel) => {
+                const value = () =>
+                  timelines[channel.name].anchors()[index]?.[0].y ?? 0
+                return (
+                  <g class={styles.handleContainer}>
+                    <circle
+                      class={styles.hitArea}
+                      cx={projectX(keyframe())}
+                      cy={projectY(channel, value())}
+                      fill="transparent"
+                      r="10"
+                      style={{ cursor: 'move' }}
+                      onPointerDown={(event) =>
+                        onKeyframeDragStart(event, channel, index)
+                      }
+                      onDblClick={(event) => {
+                        event.stopPropagation()
+                        deleteKeyframe(index)
+                      }}
+                    />
+                    <circle
+                      class={styles.handle}
+                      cx={projectX(keyframe())}
+                      cy={projectY(channel, value())}
+                      r="3"
+                      style={{ fill: channel.color, 'pointer-events': 'none' }}
+                    />
+                  </g>
+                )
+              }}
+            </For>
+          )}
+        </Index>
+        {props.children}
+      </svg>
+    )
+  }
+}
@@ -0,0 +1,122 @@
+// @vitest-environment jsdom
+import { createRoot } from 'solid-js'
+import { describe, expect, it } from 'vitest'
+import {
+  createColorTimeline,
+  createCompoundTimeline,
+  createVec2Timeline,
+} from './create-compound-timeline'
+import { hexToRgb, oklabToRgb, rgbToOklab } from './lib/oklab'
+
+const channels = [
+  { name: 'x', color: 'red', min: 0, max: 100 },
+  { name: 'y', color: 'green', min: 0, max: 100 },
+] as const
+
+describe('createCompoundTimeline', () => {
+  it('keeps the keyframe times of the channels in sync', () => {
+    createRoot((dispose) => {
+      const compound = createCompoundTimeline<'x' | 'y'>({
+        channels: [...channels],
+        initial: [
+          { time: 10, values: { x: 10, y: 0 } },
+          { time: 0, values: { x: 0, y: 100 } },
+        ],
+      })
+      expect(compound.times()).toEqual([0, 10])
+
+      compound.addKeyframe(5, { x: 50 })
+      compound.moveKeyframe(2, 20)
+      expect(compound.times()).toEqual([0, 5, 20])
+      expect(compound.timelines.y.anchors().map(([{ x }]) => x)).toEqual([
+        0, 5, 20,
+      ])
+      expect(compound.getValue(5).x).toBe(50)
+
+      compound.deleteKeyframe(1)
+      expect(compound.timelines.x.anchors()).toHaveLength(2)
+      expect(compound.timelines.y.anchors()).toHaveLength(2)
+      dispose()
+    })
+  })
+
+  it('updates the values of an existing keyframe instead of adding one', () => {
+    createRoot((dispose) => {
+      const compound = createCompoundTimeline<'x' | 'y'>({
+        channels: [...channels],
+        initial: [
+          { time: 0, values: { x: 0, y: 0 } },
+          { time: 10, values: { x: 10, y: 10 } },
+        ],
+      })
+      compound.addKeyframe(10, { x: 20 })
+      expect(compound.times()).toEqual([0, 10])
+      expect(compound.getValue(10)).toEqual({ x: 20, y: 10 })
+
+      compound.history.undo()
+      expect(compound.getValue(10)).toEqual({ x: 10, y: 10 })
+      dispose()
+    })
+  })
+
+  it('clamps moved keyframes between their neighbours', () => {
+    createRoot((dispose) => {
+      const compound = createCompoundTimeline<'x' | 'y'>({
+        channels: [...channels],
+        initial: [0, 10, 20].map((time) => ({
+          time,
+          values: { x: time, y: time },
+        })),
+      })
+      compound.moveKeyframe(1, 30)
+      expect(compound.times()).toEqual([0, 19, 20])
+      dispose()
+    })
+  })
+})
+
+describe('createVec2Timeline', () => {
+  it('returns tuples', () => {
+    createRoot((dispose) => {
+      const timeline = createVec2Timeline({
+        initial: [
+          { time: 0, value: [0, 10] },
+          { time: 10, value: [20, 30] },
+        ],
+      })
+      expect(timeline.getValue(0)).toEqual([0, 10])
+      expect(timeline.getValue(10)).toEqual([20, 30])
+      dispose()
+    })
+  })
+})
+
+describe('createColorTimeline', () => {
+  it('interpolates in OKLab and returns sRGB', () => {
+    createRoot((dispose) => {
+      const timeline = createColorTimeline({
+        initial: [
+          { time: 0, color: '#ff0000' },
+          { time: 10, color: '#0000ff' },
+        ],
+      })
+      expect(timeline.getCss(0)).toBe('rgb(255, 0, 0)')
+      expect(timeline.getCss(10)).toBe('rgb(0, 0, 255)')
+
+      // The OKLab midpoint, brighter than the sRGB midpoint rgb(128, 0, 128)
+      const red = rgbToOklab(hexToRgb('#ff0000'))
+      const blue = rgbToOklab(hexToRgb('#0000ff'))
+      const expected = oklabToRgb({
+        l: (red.l + blue.l) / 2,
+        a: (red.a + blue.a) / 2,
+        b: (red.b + blue.b) / 2,
+      })
+      const value = timeline.getValue(5)
+      expect(value.r).toBeCloseTo(expected.r)
+      expect(value.g).toBeCloseTo(expected.g)
+      expect(value.b).toBeCloseTo(expected.b)
+      expect(value.g).toBeGreaterThan(50)
+      dispose()
+    })
+  })
+})
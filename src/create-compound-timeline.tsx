@@ -0,0 +1,285 @@
+import { Accessor, batch, createMemo } from 'solid-js'
+import { createCompoundTimelineComponent } from './create-compound-timeline-component'
+import { createLinkableHistory, History } from './create-history'
+import { createTimeline } from './create-timeline'
+import {
+  hexToRgb,
+  OKLab,
+  oklabToRgb,
+  RGB,
+  rgbToCss,
+  rgbToOklab,
+} from './lib/oklab'
+import { Anchors } from './types'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                             Create Compound Timeline                           */
+/*                                                                                */
+/**********************************************************************************/
+
+export type Channel<TName extends string = string> = {
+  name: TName
+  /** Color of the channel's curve in the Timeline component. */
+  color: string
+  /** Range of the channel, mapped to the height of the Timeline component. */
+  min: number
+  max: number
+}
+
+export type CompoundKeyframe<TName extends string = string> = {
+  time: number
+  values: Record<TName, number>
+}
+
+export type CompoundApi<TName extends string = string> = {
+  channels: Array<Channel<TName>>
+  /** A timeline per channel. Their keyframe times are kept in sync by the compound timeline. */
+  timelines: Record<TName, ReturnType<typeof createTimeline>>
+  /** Times of the keyframes, shared by all channels. */
+  times: Accessor<Array<number>>
+  getValue(time: number): Record<TName, number>
+  /** Adds a keyframe to all channels, or updates the values of the keyframe at `time`. */
+  addKeyframe(time: number, values?: Partial<Record<TName, number>>): void
+  deleteKeyframe(index: number): void
+  /** Moves a keyframe of all channels, clamped between its neighbours. */
+  moveKeyframe(index: number, time: number): void
+  setKeyframeValue(index: number, channel: TName, value: number): void
+  /** Maps the times of the keyframes through `convert`, p.ex when the frame rate of the sheet changes. */
+  retime(convert: (times: Array<number>) => Array<number>): void
+  history: History
+}
+
+/**
+ * Creates a track of multiple channels sharing a single set of keyframe times.
+ * Every channel is a timeline of its own with `auto` tangents, edit the keyframe times through the
+ * compound timeline to keep the channels in sync.
+ */
+export function createCompoundTimeline<TName extends string>(config: {
+  channels: Array<Channel<TName>>
+  initial?: Array<CompoundKeyframe<TName>>
+  history?: History
+}) {
+  const history = config.history || createLinkableHistory()
+  const initial = [...(config.initial || [])].sort((a, b) => a.time - b.time)
+
+  const timelines = Object.fromEntries(
+    config.channels.map(({ name }) => {
+      const anchors: Anchors = initial.map(({ time, values }) => [
+        { x: time, y: values[name] },
+        { mode: 'auto' },
+      ])
+      return [name, createTimeline({ initial: anchors, history })]
+    })
+  ) as Record<TName, ReturnType<typeof createTimeline>>
+
+  const channelTimelines = config.channels.map(({ name }) => timelines[name])
+
+  const times = createMemo(() =>
+    channelTimelines[0]
+      ? channelTimelines[0].anchors().map(([position]) => position.x)
+      : []
+  )
+
+  function getValue(time: number) {
+    return Object.fromEntries(
+      config.channels.map(({ name }) => [name, timelines[name].getValue(time)])
+    ) as Record<TName, number>
+  }
+
+  function addKeyframe(
+    time: number,
+    values: Partial<Record<TName, number>> = {}
+  ) {
+    // A keyframe at the same time would create a zero-length segment: update its values instead
+    const existing = times().indexOf(time)
+    if (existing !== -1) {
+      history.transaction(() =>
+        batch(() =>
+          config.channels.forEach(({ name }) => {
+            const value = values[name]
+            if (value !== undefined) setKeyframeValue(existing, name, value)
+          })
+        )
+      )
+      return
+    }
+
+    let index = times().findIndex((x) => x > time)
+    if (index === -1) index = times().length
+
+    history.transaction(() =>
+      batch(() =>
+        config.channels.forEach(({ name }) => {
+          const timeline = timelines[name]
+          timeline.addAnchor(time, values[name] ?? timeline.getValue(time))
+          timeline.setTangentMode('auto', [index])
+        })
+      )
+    )
+  }
+
+  function deleteKeyframe(index: number) {
+    history.transaction(() =>
+      batch(() =>
+        channelTimelines.forEach((timeline) => timeline.deleteAnchor(index))
+      )
+    )
+  }
+
+  function moveKeyframe(index: number, time: number) {
+    const pre = times()[index - 1]
+    const post = times()[index + 1]
+
+    // Clamp time with the neighbouring keyframes, to ensure monotonicity of the curves
+    if (pre !== undefined && time - 1 < pre) time = pre + 1
+    if (post !== undefined && time + 1 > post) time = post - 1
+
+    history.transaction(() =>
+      batch(() =>
+        channelTimelines.forEach((timeline) =>
+          timeline.setAnchors(index, 0, 'x', time)
+        )
+      )
+    )
+  }
+
+  function setKeyframeValue(index: number, channel: TName, value: number) {
+    timelines[channel].setAnchors(index, 0, 'y', value)
+  }
+
+  function retime(convert: (times: Array<number>) => Array<number>) {
+    const converted = convert(times())
+    history.transaction(() =>
+      batch(() =>
+        channelTimelines.forEach((timeline) => timeline.retime(() => converted))
+      )
+    )
+  }
+
+  const api: CompoundApi<TName> = {
+    channels: config.channels,
+    timelines,
+    times,
+    getValue,
+    addKeyframe,
+    deleteKeyframe,
+    moveKeyframe,
+    setKeyframeValue,
+    retime,
+    history,
+  }
+
+  return {
+    ...api,
+    Component: createCompoundTimelineComponent(api),
+  }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                  Vector Tracks                                 */
+/*                                                                                */
+/**********************************************************************************/
+
+export function createVec2Timeline(config?: {
+  initial?: Array<{ time: number; value: [number, number] }>
+  min?: number
+  max?: number
+  history?: History
+}) {
+  const { min = 0, max = 1000 } = config || {}
+  const compound = createCompoundTimeline({
+    channels: [
+      { name: 'x', color: 'crimson', min, max },
+      { name: 'y', color: 'seagreen', min, max },
+    ],
+    initial: config?.initial?.map(({ time, value: [x, y] }) => ({
+      time,
+      values: { x, y },
+    })),
+    history: config?.history,
+  })
+  return {
+    ...compound,
+    getValue(time: number): [number, number] {
+      const { x, y } = compound.getValue(time)
+      return [x, y]
+    },
+  }
+}
+
+export function createVec3Timeline(config?: {
+  initial?: Array<{ time: number; value: [number, number, number] }>
+  min?: number
+  max?: number
+  history?: History
+}) {
+  const { min = 0, max = 1000 } = config || {}
+  const compound = createCompoundTimeline({
+    channels: [
+      { name: 'x', color: 'crimson', min, max },
+      { name: 'y', color: 'seagreen', min, max },
+      { name: 'z', color: 'royalblue', min, max },
+    ],
+    initial: config?.initial?.map(({ time, value: [x, y, z] }) => ({
+      time,
+      values: { x, y, z },
+    })),
+    history: config?.history,
+  })
+  return {
+    ...compound,
+    getValue(time: number): [number, number, number] {
+      const { x, y, z } = compound.getValue(time)
+      return [x, y, z]
+    },
+  }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                   Color Track                                  */
+/*                                                                                */
+/**********************************************************************************/
+
+const colorToOklab = (color: string | RGB) =>
+  rgbToOklab(typeof color === 'string' ? hexToRgb(color) : color)
+
+/**
+ * Creates a color track. The colors are stored and interpolated in OKLab,
+ * a perceptual color space, and converted back to sRGB by `getValue`.
+ */
+export function createColorTimeline(config?: {
+  initial?: Array<{ time: number; color: string | RGB }>
+  history?: History
+}) {
+  const compound = createCompoundTimeline<keyof OKLab>({
+    channels: [
+      { name: 'l', color: 'gray', min: 0, max: 1 },
+      { name: 'a', color: 'mediumseagreen', min: -0.4, max: 0.4 },
+      { name: 'b', color: 'steelblue', min: -0.4, max: 0.4 },
+    ],
+    initial: config?.initial?.map(({ time, color }) => ({
+      time,
+      values: colorToOklab(color),
+    })),
+    history: config?.history,
+  })
+
+  return {
+    ...compound,
+    getValue(time: number): RGB {
+      return oklabToRgb(compound.getValue(time))
+    },
+    getCss(time: number) {
+      return rgbToCss(oklabToRgb(compound.getValue(time)))
+    },
+    addKeyframe(time: number, color?: string | RGB) {
+      compound.addKeyframe(
+        time,
+        color === undefined ? undefined : colorToOklab(color)
+      )
+    },
+  }
+}
@@ -0,0 +1,226 @@
+import clsx from 'clsx'
+import {
+  ComponentProps,
+  createSignal,
+  Index,
+  onCleanup,
+  Show,
+  splitProps,
+} from 'solid-js'
+import type {
+  DiscreteApi,
+  DiscreteKind,
+  DiscreteValue,
+} from './create-discrete-timeline'
+import { DiscreteInput } from './create-discrete-value-component'
+import { SNAP_DISTANCE, useSheet } from './sheet'
+import styles from './timeline.module.css'
+import { createTrackSurface } from './track-surface'
+import { pointerHelper } from './utils/pointer-helper'
+
+const DEFAULT_VALUES: Record<DiscreteKind, DiscreteValue | undefined> = {
+  enum: undefined,
+  boolean: false,
+  number: 0,
+  string: '',
+}
+
+/** Size in pixels of the keyframe diamonds. */
+const KEYFRAME_SIZE = 5
+
+/**
+ * Compact row component of a discrete timeline.
+ * - double-click on the row adds a keyframe holding the current value
+ * - dragging a keyframe moves it, double-clicking it deletes it
+ * - clicking the value of a keyframe edits it, booleans are toggled.
+ *   An edit is recorded as a single history entry once committed with Enter or blur, Escape reverts it.
+ */
+export function createDiscreteTimelineComponent<T extends DiscreteValue>({
+  keyframes,
+  kind,
+  values,
+  getValue,
+  addKeyframe,
+  deleteKeyframe,
+  moveKeyframe,
+  setKeyframeValue,
+  retime,
+  history,
+}: DiscreteApi<T>) {
+  return function DiscreteTimeline(props: ComponentProps<'svg'>) {
+    const {
+      setIsDraggingHandle,
+      zoomX,
+      snap,
+      addFrameRateConverter,
+      addFitTargets,
+      linkHistory,
+    } = useSheet()
+    const [, rest] = splitProps(props, ['children', 'class'])
+
+    linkHistory(history)
+    addFrameRateConverter(retime)
+    addFitTargets(() => keyframes().map((keyframe) => keyframe.time))
+
+    const [editing, setEditing] = createSignal<number>()
+
+    const surface = createTrackSurface({
+      onAdd(time) {
+        const value = getValue(time) ?? values?.[0] ?? DEFAULT_VALUES[kind]
+        if (value !== undefined) addKeyframe(time, value as T)
+      },
+    })
+
+    const height = () => surface.domRect()?.height || 0
+    const width = () => surface.domRect()?.width || 0
+    const projectX = surface.projectX
+
+    async function onKeyframeDragStart(event: PointerEvent, index: number) {
+      const initialTime = keyframes()[index].time
+
+      setIsDraggingHandle(true)
+
+      await history.transaction(async () => {
+        const { cancelled } = await pointerHelper(event, ({ delta, event }) => {
+          const time = initialTime - delta.x / zoomX()
+          moveKeyframe(
+            index,
+            event.altKey ? time : snap(time, SNAP_DISTANCE / zoomX())
+          )
+        })
+        if (cancelled) history.rollback()
+      })
+
+      setIsDraggingHandle(false)
+    }
+
+    // Resolves the transaction of the current edit session
+    let endEdit: (() => void) | undefined
+
+    function onEdit(index: number) {
+      if (kind === 'boolean') {
+        setKeyframeValue(index, !keyframes()[index].value as T)
+        return
+      }
+      stopEditing()
+      setEditing(index)
+      // Every keystroke changes the value: record the whole edit session as a single entry
+      history.transaction(
+        () => new Promise<void>((resolve) => (endEdit = resolve))
+      )
+    }
+
+    /** Ends the edit session, reverting its changes when `cancel` is set. */
+    function stopEditing(cancel = false) {
+      if (endEdit) {
+        if (cancel) history.rollback()
+        endEdit()
+        endEdit = undefined
+      }
+      setEditing(undefined)
+    }
+
+    onCleanup(() => stopEditing())
+
+    return (
+      <svg
+        ref={surface.ref}
+        width="100%"
+        height="100%"
+        class={clsx(props.class, styles.timeline)}
+        {...rest}
+        onPointerDown={(event) => {
+          if (event.target === event.currentTarget) stopEditing()
+          surface.onPointerDown(event)
+        }}
+        onPointerMove={surface.onPointerMove}
+        onPointerLeave={surface.onPointerLeave}
+        onDblClick={surface.onDblClick}
+        onWheel={surface.onWheel}
+      >
+        <Index each={keyframes()}>
+          {(keyframe, index) => {
+            const x = () => projectX(keyframe().time)
+            const next = () => keyframes()[index + 1]
+            const end = () => (next() ? projectX(next()!.time) : width())
+            return (
+              <g class={styles.discreteKeyframe}>
+                <rect
+                  class={styles.discreteSpan}
+                  x={x()}
+                  y={0}
+                  width={Math.max(0, end() - x())}
+                  height={height()}
+                  style={{ 'pointer-events': 'none' }}
+                />
+                <Show
+                  when={editing() === index}
+                  fallback={
+                    <text
+                      class={styles.discreteLabel}
+                      x={x() + KEYFRAME_SIZE * 2}
+                      y={height() / 2}
+                      onPointerDown={(event) => {
+                        event.stopPropagation()
+                        onEdit(index)
+                      }}
+                    >
+                      {String(keyframe().value)}
+                    </text>
+                  }
+                >
+                  <foreignObject
+                    x={x() + KEYFRAME_SIZE * 2}
+                    y={0}
+                    width={Math.max(0, end() - x() - KEYFRAME_SIZE * 2)}
+                    height={height()}
+                  >
+                    <DiscreteInput
+                      ref={(element) => queueMicrotask(() => element.focus())}
+                      kind={kind}
+                      values={values}
+                      value={keyframe().value}
+                      onChange={(value) => setKeyframeValue(index, value as T)}
+                      onBlur={() => stopEditing()}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter') stopEditing()
+                        if (event.key === 'Escape') stopEditing(true)
+                      }}
+                      style={{ width: '100%', height: '100%' }}
+                    />
+                  </foreignObject>
+                </Show>
+                <g class={styles.handleContainer}>
+                  <rect
+                    x={x() - KEYFRAME_SIZE * 2}
+                    y={height() / 2 - KEYFRAME_SIZE * 2}
+                    width={KEYFRAME_SIZE * 4}
+                    height={KEYFRAME_SIZE * 4}
+                    fill="transparent"
+                    style={{ cursor: 'ew-resize' }}
+                    onPointerDown={(event) => onKeyframeDragStart(event, index)}
+                    onDblClick={(event) => {
+                      event.stopPropagation()
+                      deleteKeyframe(index)
+                    }}
+                  />
+                  <rect
+                    class={styles.handle}
+                    x={x() - KEYFRAME_SIZE / 2}
+                    y={height() / 2 - KEYFRAME_SIZE / 2}
+                    width={KEYFRAME_SIZE}
+                    height={KEYFRAME_SIZE}
+                    transform={`rotate(45 ${x()} ${height() / 2})`}
+                    style={{ 'pointer-events': 'none' }}
+                  />
+                </g>
+              </g>
+            )
+          }}
+        </Index>
+        <surface.Indicators height={height()} />
+        {props.children}
+      </svg>
+    )
+  }
+}
@@ -0,0 +1,172 @@
+// @vitest-environment jsdom
+import { createRoot } from 'solid-js'
+import { render } from 'solid-js/web'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { createDiscreteTimeline } from './create-discrete-timeline'
+import { Sheet, useSheet } from './sheet'
+
+beforeAll(() => {
+  globalThis.ResizeObserver ??= class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  }
+})
+
+let dispose: (() => void) | undefined
+
+afterEach(() => {
+  dispose?.()
+  dispose = undefined
+})
+
+describe('createDiscreteTimeline', () => {
+  it('holds the value of the most recent keyframe', () => {
+    createRoot((dispose) => {
+      const timeline = createDiscreteTimeline({
+        initial: [
+          { time: 10, value: 'b' },
+          { time: 0, value: 'a' },
+          { time: 20, value: 'c' },
+        ],
+      })
+      expect(timeline.kind).toBe('string')
+      // Before the first keyframe, its value is held
+      expect(timeline.getValue(-5)).toBe('a')
+      expect(timeline.getValue(0)).toBe('a')
+      expect(timeline.getValue(9.99)).toBe('a')
+      // At a keyframe, the value of that keyframe
+      expect(timeline.getValue(10)).toBe('b')
+      expect(timeline.getValue(20)).toBe('c')
+      expect(timeline.getValue(100)).toBe('c')
+      dispose()
+    })
+  })
+
+  it('returns undefined without keyframes', () => {
+    createRoot((dispose) => {
+      expect(createDiscreteTimeline().getValue(0)).toBeUndefined()
+      dispose()
+    })
+  })
+
+  it('infers the kind of the values', () => {
+    createRoot((dispose) => {
+      const values = ['idle', 'walk', 'run'] as const
+      expect(createDiscreteTimeline({ values }).kind).toBe('enum')
+      expect(
+        createDiscreteTimeline({ initial: [{ time: 0, value: true }] }).kind
+      ).toBe('boolean')
+      expect(
+        createDiscreteTimeline({ initial: [{ time: 0, value: 1 }] }).kind
+      ).toBe('number')
+      dispose()
+    })
+  })
+
+  it('replaces the value of a keyframe added at the same time', () => {
+    createRoot((dispose) => {
+      const timeline = createDiscreteTimeline({
+        values: ['idle', 'walk', 'run'] as const,
+        initial: [{ time: 0, value: 'idle' }],
+      })
+      timeline.addKeyframe(10, 'walk')
+      timeline.addKeyframe(10, 'run')
+      expect(timeline.keyframes()).toEqual([
+        { time: 0, value: 'idle' },
+        { time: 10, value: 'run' },
+      ])
+      dispose()
+    })
+  })
+
+  it('clamps moved keyframes between their neighbours', () => {
+    createRoot((dispose) => {
+      const timeline = createDiscreteTimeline({
+        initial: [0, 10, 20].map((time) => ({ time, value: time })),
+      })
+      timeline.moveKeyframe(1, 30)
+      expect(timeline.keyframes()[1].time).toBe(19)
+      timeline.moveKeyframe(1, -5)
+      expect(timeline.keyframes()[1].time).toBe(1)
+      dispose()
+    })
+  })
+})
+
+describe('DiscreteTimeline', () => {
+  it('records an edit session as a single history entry', async () => {
+    let timeline!: ReturnType<typeof createDiscreteTimeline<string>>
+    let sheet!: ReturnType<typeof useSheet>
+
+    dispose = render(() => {
+      timeline = createDiscreteTimeline({
+        initial: [{ time: 0, value: 'a' }],
+      })
+      return (
+        <Sheet>
+          {(() => {
+            sheet = useSheet()
+            return null
+          })()}
+          <timeline.Component />
+        </Sheet>
+      )
+    }, document.body)
+
+    document
+      .querySelector('text')!
+      .dispatchEvent(new Event('pointerdown', { bubbles: true }))
+
+    const input = document.querySelector('input')!
+    for (const value of ['ab', 'abc']) {
+      input.value = value
+      input.dispatchEvent(new Event('input', { bubbles: true }))
+    }
+    input.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'Enter', bubbles: true })
+    )
+    // The transaction ends once its promise settles
+    await Promise.resolve()
+
+    expect(timeline.getValue(0)).toBe('abc')
+    sheet.history.undo()
+    expect(timeline.getValue(0)).toBe('a')
+    expect(sheet.history.canUndo()).toBe(false)
+  })
+
+  it('reverts an edit session on Escape', async () => {
+    let timeline!: ReturnType<typeof createDiscreteTimeline<string>>
+    let sheet!: ReturnType<typeof useSheet>
+
+    dispose = render(() => {
+      timeline = createDiscreteTimeline({
+        initial: [{ time: 0, value: 'a' }],
+      })
+      return (
+        <Sheet>
+          {(() => {
+            sheet = useSheet()
+            return null
+          })()}
+          <timeline.Component />
+        </Sheet>
+      )
+    }, document.body)
+
+    document
+      .querySelector('text')!
+      .dispatchEvent(new Event('pointerdown', { bubbles: true }))
+
+    const input = document.querySelector('input')!
+    input.value = 'ab'
+    input.dispatchEvent(new Event('input', { bubbles: true }))
+    input.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'Escape', bubbles: true })
+    )
+    await Promise.resolve()
+
+    expect(timeline.getValue(0)).toBe('a')
+    expect(sheet.history.canUndo()).toBe(false)
+  })
+})
@@ -0,0 +1,161 @@
+import { Accessor } from 'solid-js'
+import { SetStoreFunction } from 'solid-js/store'
+import { createDiscreteTimelineComponent } from './create-discrete-timeline-component'
+import { createDiscreteValueComponent } from './create-discrete-value-component'
+import {
+  createLinkableHistory,
+  createRecordedStore,
+  History,
+} from './create-history'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                             Create Discrete Timeline                           */
+/*                                                                                */
+/**********************************************************************************/
+
+export type DiscreteValue = string | number | boolean
+
+export type DiscreteKind = 'enum' | 'boolean' | 'number' | 'string'
+
+export type DiscreteKeyframe<T extends DiscreteValue = DiscreteValue> = {
+  time: number
+  value: T
+}
+
+export type DiscreteApi<T extends DiscreteValue = DiscreteValue> = {
+  keyframes: Accessor<Array<DiscreteKeyframe<T>>>
+  /** Allowed values of an enum track. */
+  values?: ReadonlyArray<T>
+  /** Kind of editor used for the values of the track. */
+  kind: DiscreteKind
+  /**
+   * Value of the most recent keyframe at or before `time`.
+   * Before the first keyframe the value of the first keyframe is held.
+   */
+  getValue(time: number): T | undefined
+  setKeyframes: SetStoreFunction<Array<DiscreteKeyframe<T>>>
+  /** Adds a keyframe, replacing the value of an existing keyframe at the same time. */
+  addKeyframe(time: number, value: T): void
+  deleteKeyframe(index: number): void
+  /** Moves a keyframe, clamped between its neighbours. */
+  moveKeyframe(index: number, time: number): void
+  setKeyframeValue(index: number, value: T): void
+  /** Maps the times of the keyframes through `convert`, p.ex when the frame rate of the sheet changes. */
+  retime(convert: (times: Array<number>) => Array<number>): void
+  history: History
+}
+
+function getDiscreteKind(value: DiscreteValue | undefined): DiscreteKind {
+  // Tracks without initial keyframes default to strings
+  const type = typeof value
+  return type === 'boolean' || type === 'number' ? type : 'string'
+}
+
+/**
+ * Creates a track of discrete values, p.ex class names, text content or visibility.
+ * Discrete values are not interpolated: a value holds until the next keyframe.
+ */
+export function createDiscreteTimeline<T extends DiscreteValue>(config?: {
+  initial?: Array<DiscreteKeyframe<T>>
+  /** Restricts the values to a set of options, edited with a select. */
+  values?: ReadonlyArray<T>
+  /** Kind of editor, defaults to the type of the first initial value. */
+  kind?: Exclude<DiscreteKind, 'enum'>
+  history?: History
+}) {
+  const history = config?.history || createLinkableHistory()
+
+  // Every change to the keyframes is recorded in the history
+  const [keyframes, setKeyframes] = createRecordedStore<
+    Array<DiscreteKeyframe<T>>
+  >(
+    [...(config?.initial || [])].sort((a, b) => a.time - b.time),
+    history
+  )
+
+  const kind = config?.values
+    ? 'enum'
+    : config?.kind ?? getDiscreteKind(config?.initial?.[0]?.value)
+
+  /** Index of the last keyframe at or before `time`, -1 when `time` is before the first keyframe. */
+  function findKeyframe(time: number) {
+    let min = 0
+    let max = keyframes.length - 1
+    let result = -1
+    while (min <= max) {
+      const middle = (min + max) >> 1
+      if (keyframes[middle].time <= time) {
+        result = middle
+        min = middle + 1
+      } else {
+        max = middle - 1
+      }
+    }
+    return result
+  }
+
+  function getValue(time: number) {
+    if (keyframes.length === 0) return undefined
+    return keyframes[Math.max(0, findKeyframe(time))].value
+  }
+
+  function addKeyframe(time: number, value: T) {
+    const index = findKeyframe(time)
+    if (keyframes[index]?.time === time) {
+      setKeyframes(index, 'value', value)
+      return
+    }
+    setKeyframes((keyframes) => [
+      ...keyframes.slice(0, index + 1),
+      { time, value },
+      ...keyframes.slice(index + 1),
+    ])
+  }
+
+  function deleteKeyframe(index: number) {
+    setKeyframes((keyframes) => keyframes.filter((_, i) => i !== index))
+  }
+
+  function moveKeyframe(index: number, time: number) {
+    const pre = keyframes[index - 1]
+    const post = keyframes[index + 1]
+
+    // Clamp time with the neighbouring keyframes, so the order of the keyframes is kept
+    if (pre && time - 1 < pre.time) time = pre.time + 1
+    if (post && time + 1 > post.time) time = post.time - 1
+
+    setKeyframes(index, 'time', time)
+  }
+
+  function setKeyframeValue(index: number, value: T) {
+    setKeyframes(index, 'value', value)
+  }
+
+  function retime(convert: (times: Array<number>) => Array<number>) {
+    const times = convert(keyframes.map((keyframe) => keyframe.time))
+    setKeyframes((keyframes) =>
+      keyframes.map((keyframe, index) => ({ ...keyframe, time: times[index] }))
+    )
+  }
+
+  const api: DiscreteApi<T> = {
+    keyframes: () => keyframes,
+    values: config?.values,
+    kind,
+    getValue,
+    setKeyframes,
+    addKeyframe,
+    deleteKeyframe,
+    moveKeyframe,
+    setKeyframeValue,
+    retime,
+    history,
+  }
+
+  return {
+    ...api,
+    Value: createDiscreteValueComponent(api),
+    Component: createDiscreteTimelineComponent(api),
+  }
+}
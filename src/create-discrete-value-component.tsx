@@ -0,0 +1,146 @@
+import {
+  Accessor,
+  ComponentProps,
+  createContext,
+  For,
+  Match,
+  ParentProps,
+  Setter,
+  splitProps,
+  Switch,
+  useContext,
+} from 'solid-js'
+import type {
+  DiscreteApi,
+  DiscreteKind,
+  DiscreteValue,
+} from './create-discrete-timeline'
+import { useSheet } from './sheet'
+import { createWritable } from './utils/create-writable'
+
+const DiscreteValueContext = createContext<{
+  value: Accessor<DiscreteValue | undefined>
+  setValue: Setter<DiscreteValue | undefined>
+}>()
+const useDiscreteValue = () => {
+  const context = useContext(DiscreteValueContext)
+  if (!context) {
+    throw `useDiscreteValue should be used in a descendant of Value`
+  }
+  return context
+}
+
+/**
+ * Editor of a discrete value: a select for enums, a checkbox for booleans
+ * and a number or text input otherwise.
+ */
+export function DiscreteInput(
+  props: Omit<ComponentProps<'input'>, 'onInput' | 'value' | 'onChange'> & {
+    kind: DiscreteKind
+    values?: ReadonlyArray<DiscreteValue>
+    value: DiscreteValue | undefined
+    onChange(value: DiscreteValue): void
+  }
+) {
+  const [config, rest] = splitProps(props, [
+    'kind',
+    'values',
+    'value',
+    'onChange',
+  ])
+  return (
+    <Switch>
+      <Match when={config.kind === 'enum'}>
+        <select
+          value={config.values?.indexOf(config.value!)}
+          onChange={(e) =>
+            config.onChange(config.values![+e.currentTarget.value])
+          }
+          {...(rest as ComponentProps<'select'>)}
+        >
+          <For each={config.values}>
+            {(value, index) => <option value={index()}>{String(value)}</option>}
+          </For>
+        </select>
+      </Match>
+      <Match when={config.kind === 'boolean'}>
+        <input
+          type="checkbox"
+          checked={!!config.value}
+          onChange={(e) => config.onChange(e.currentTarget.checked)}
+          {...rest}
+        />
+      </Match>
+      <Match when={config.kind === 'number'}>
+        <input
+          type="number"
+          value={(config.value as number | undefined) ?? 0}
+          onInput={(e) => config.onChange(+e.currentTarget.value)}
+          {...rest}
+        />
+      </Match>
+      <Match when={config.kind === 'string'}>
+        <input
+          type="text"
+          value={(config.value as string | undefined) ?? ''}
+          onInput={(e) => config.onChange(e.currentTarget.value)}
+          {...rest}
+        />
+      </Match>
+    </Switch>
+  )
+}
+
+export function createDiscreteValueComponent<T extends DiscreteValue>({
+  addKeyframe,
+  getValue,
+  kind,
+  values,
+}: DiscreteApi<T>) {
+  function Value(props: ParentProps) {
+    const { time } = useSheet()
+    const [value, setValue] = createWritable<DiscreteValue | undefined>(() =>
+      getValue(time())
+    )
+
+    return (
+      <DiscreteValueContext.Provider value={{ value, setValue }}>
+        {props.children}
+      </DiscreteValueContext.Provider>
+    )
+  }
+
+  Value.Button = function (props: Omit<ComponentProps<'button'>, 'click'>) {
+    const { time, snapToFrame } = useSheet()
+    const { value } = useDiscreteValue()
+
+    return (
+      <button
+        onClick={() => {
+          const _value = value()
+          if (_value !== undefined)
+            addKeyframe(snapToFrame(time()), _value as T)
+        }}
+        {...props}
+      />
+    )
+  }
+
+  Value.Input = function (
+    props: Omit<ComponentProps<'input'>, 'onInput' | 'value' | 'onChange'>
+  ) {
+    const { value, setValue } = useDiscreteValue()
+
+    return (
+      <DiscreteInput
+        kind={kind}
+        values={values}
+        value={value()}
+        onChange={(value) => setValue(value)}
+        {...props}
+      />
+    )
+  }
+
+  return Value
+}
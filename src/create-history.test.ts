@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { createHistory, createRecordedStore } from './create-history'
+
+describe('createHistory', () => {
+  it('combines the entries of a transaction', () => {
+    const history = createHistory()
+    const values: Array<number> = []
+    history.transaction(() => {
+      history.push({ undo: () => values.push(-1), redo: () => values.push(1) })
+      history.push({ undo: () => values.push(-2), redo: () => values.push(2) })
+    })
+    history.undo()
+    expect(values).toEqual([-2, -1])
+    expect(history.canUndo()).toBe(false)
+    history.redo()
+    expect(values).toEqual([-2, -1, 1, 2])
+  })
+
+  it('ends a transaction once its promise settles', async () => {
+    const history = createHistory()
+    const promise = history.transaction(async () => {
+      history.push({ undo: () => {}, redo: () => {} })
+    })
+    expect(history.canUndo()).toBe(false)
+    await promise
+    expect(history.canUndo()).toBe(true)
+  })
+})
+
+describe('createRecordedStore', () => {
+  it('records every change outside of a transaction', () => {
+    const history = createHistory()
+    const [store, setStore] = createRecordedStore({ value: 0 }, history)
+    setStore('value', 1)
+    setStore('value', 2)
+    history.undo()
+    expect(store.value).toBe(1)
+    history.undo()
+    expect(store.value).toBe(0)
+    history.redo()
+    expect(store.value).toBe(1)
+  })
+
+  it('records the changes of a transaction as a single entry', () => {
+    const history = createHistory()
+    const [store, setStore] = createRecordedStore({ value: 0 }, history)
+    history.transaction(() => {
+      for (let value = 1; value <= 10; value++) {
+        setStore('value', value)
+      }
+    })
+    expect(store.value).toBe(10)
+    history.undo()
+    expect(store.value).toBe(0)
+    expect(history.canUndo()).toBe(false)
+  })
+
+  it('does not record changes that are reverted within a transaction', () => {
+    const history = createHistory()
+    const [, setStore] = createRecordedStore({ value: 0 }, history)
+    setStore('value', 0)
+    history.transaction(() => {
+      setStore('value', 1)
+      setStore('value', 0)
+    })
+    expect(history.canUndo()).toBe(false)
+  })
+
+  it('reverts the changes of a rolled back transaction', async () => {
+    const history = createHistory()
+    const [store, setStore] = createRecordedStore({ value: 0 }, history)
+    await history.transaction(async () => {
+      setStore('value', 1)
+      await Promise.resolve()
+      setStore('value', 2)
+      history.rollback()
+    })
+    expect(store.value).toBe(0)
+    expect(history.canUndo()).toBe(false)
+  })
+
+  it('calls onRestore after an undo', () => {
+    const history = createHistory()
+    let restored = 0
+    const [, setStore] = createRecordedStore({ value: 0 }, history, {
+      onRestore: () => restored++,
+    })
+    setStore('value', 1)
+    history.undo()
+    expect(restored).toBe(1)
+  })
+})
@@ -0,0 +1,266 @@
+import { Accessor, batch, createSignal } from 'solid-js'
+import { createStore, reconcile, SetStoreFunction } from 'solid-js/store'
+import { defaultProps } from './utils/default-props'
+
+export type HistoryEntry = {
+  undo(): void
+  redo(): void
+}
+
+export type History = {
+  canUndo: Accessor<boolean>
+  canRedo: Accessor<boolean>
+  /** Whether an undo or redo is currently being applied. */
+  isApplying: Accessor<boolean>
+  push(entry: HistoryEntry): void
+  undo(): void
+  redo(): void
+  clear(): void
+  /**
+   * Groups all the entries pushed during `callback` into a single entry.
+   * When `callback` returns a promise, the transaction ends once it settles.
+   */
+  transaction<T>(callback: () => T): T
+  /**
+   * Reverts and discards the changes recorded so far in the current transaction, p.ex of a cancelled drag.
+   * Within nested transactions, the changes of the enclosing transactions are reverted as well.
+   */
+  rollback(): void
+  /**
+   * Calls `callback` when the current transaction ends, before its entries are combined,
+   * so `callback` can still push entries into it. Outside of a transaction it is called immediately.
+   */
+  onTransactionEnd(callback: () => void): void
+}
+
+function combineEntries(entries: Array<HistoryEntry>): HistoryEntry {
+  return {
+    undo: () => {
+      for (let i = entries.length - 1; i >= 0; i--) {
+        entries[i].undo()
+      }
+    },
+    redo: () => entries.forEach((entry) => entry.redo()),
+  }
+}
+
+/**
+ * Creates an undo/redo history.
+ * A single history can be shared between multiple timelines, p.ex all the timelines of a `Sheet`.
+ */
+export function createHistory(options?: { limit?: number }): History {
+  const config = defaultProps(options || {}, { limit: 100 })
+
+  const [past, setPast] = createSignal<Array<HistoryEntry>>([])
+  const [future, setFuture] = createSignal<Array<HistoryEntry>>([])
+  const [isApplying, setIsApplying] = createSignal(false)
+
+  let transactionEntries: Array<HistoryEntry> | undefined
+  let transactionDepth = 0
+  let transactionCallbacks: Array<() => void> = []
+
+  function push(entry: HistoryEntry) {
+    if (isApplying()) return
+    if (transactionEntries) {
+      transactionEntries.push(entry)
+      return
+    }
+    batch(() => {
+      setPast((past) => [...past, entry].slice(-config.limit))
+      setFuture([])
+    })
+  }
+
+  function apply(callback: () => void) {
+    setIsApplying(true)
+    try {
+      batch(callback)
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  function undo() {
+    const entry = past()[past().length - 1]
+    if (!entry) return
+    apply(() => entry.undo())
+    batch(() => {
+      setPast((past) => past.slice(0, -1))
+      setFuture((future) => [...future, entry])
+    })
+  }
+
+  function redo() {
+    const entry = future()[future().length - 1]
+    if (!entry) return
+    apply(() => entry.redo())
+    batch(() => {
+      setFuture((future) => future.slice(0, -1))
+      setPast((past) => [...past, entry])
+    })
+  }
+
+  function clear() {
+    batch(() => {
+      setPast([])
+      setFuture([])
+    })
+  }
+
+  function startTransaction() {
+    transactionDepth++
+    transactionEntries ??= []
+  }
+
+  function flushTransactionCallbacks() {
+    while (transactionCallbacks.length > 0) {
+      const callbacks = transactionCallbacks
+      transactionCallbacks = []
+      callbacks.forEach((callback) => callback())
+    }
+  }
+
+  function endTransaction() {
+    transactionDepth--
+    if (transactionDepth > 0) return
+    flushTransactionCallbacks()
+    const entries = transactionEntries!
+    transactionEntries = undefined
+    if (entries.length > 0) {
+      push(combineEntries(entries))
+    }
+  }
+
+  function transaction<T>(callback: () => T): T {
+    startTransaction()
+    let result: T
+    try {
+      result = callback()
+    } catch (error) {
+      endTransaction()
+      throw error
+    }
+    if (result instanceof Promise) {
+      return result.finally(endTransaction) as T
+    }
+    endTransaction()
+    return result
+  }
+
+  function rollback() {
+    if (!transactionEntries) return
+    flushTransactionCallbacks()
+    const entries = transactionEntries.splice(0)
+    apply(() => combineEntries(entries).undo())
+  }
+
+  function onTransactionEnd(callback: () => void) {
+    if (transactionEntries) {
+      transactionCallbacks.push(callback)
+    } else {
+      callback()
+    }
+  }
+
+  return {
+    canUndo: () => past().length > 0,
+    canRedo: () => future().length > 0,
+    isApplying,
+    push,
+    undo,
+    redo,
+    clear,
+    transaction,
+    rollback,
+    onTransactionEnd,
+  }
+}
+
+export type LinkableHistory = History & {
+  /**
+   * Forwards the history to `target` until the link is removed.
+   * @returns a function removing the link
+   */
+  link(target: History): () => void
+}
+
+export const isLinkableHistory = (
+  history: History
+): history is LinkableHistory => 'link' in history
+
+/**
+ * Creates a history that can be forwarded to another history.
+ * Tracks created without a history use one, so their changes are recorded in the history
+ * of the `Sheet` they are mounted in.
+ */
+export function createLinkableHistory(options?: {
+  limit?: number
+}): LinkableHistory {
+  const own = createHistory(options)
+  const [target, setTarget] = createSignal<History>(own)
+
+  function link(history: History) {
+    setTarget(history)
+    return () => {
+      if (target() === history) setTarget(own)
+    }
+  }
+
+  return {
+    canUndo: () => target().canUndo(),
+    canRedo: () => target().canRedo(),
+    isApplying: () => target().isApplying(),
+    push: (entry) => target().push(entry),
+    undo: () => target().undo(),
+    redo: () => target().redo(),
+    clear: () => target().clear(),
+    transaction: (callback) => target().transaction(callback),
+    rollback: () => target().rollback(),
+    onTransactionEnd: (callback) => target().onTransactionEnd(callback),
+    link,
+  }
+}
+
+/**
+ * Creates a store whose changes are recorded in `history`.
+ * The store is snapshotted before its first change and once more when the surrounding transaction ends,
+ * so all the changes of a transaction, p.ex a drag, are recorded as a single entry.
+ * @param options.onRestore called after the store is restored by an undo or a redo
+ */
+export function createRecordedStore<T extends object>(
+  initial: T,
+  history: History,
+  options?: { onRestore?(): void }
+): [get: T, set: SetStoreFunction<T>] {
+  const [store, setStoreUnrecorded] = createStore<T>(initial)
+  let before: string | undefined
+
+  function restore(snapshot: string) {
+    setStoreUnrecorded(reconcile(JSON.parse(snapshot)))
+    options?.onRestore?.()
+  }
+
+  function record() {
+    const snapshot = before!
+    const after = JSON.stringify(store)
+    before = undefined
+    if (snapshot === after) return
+    history.push({
+      undo: () => restore(snapshot),
+      redo: () => restore(after),
+    })
+  }
+
+  const setStore = ((...args: Array<unknown>) => {
+    const recording = before !== undefined
+    if (!recording) {
+      before = JSON.stringify(store)
+    }
+    ;(setStoreUnrecorded as (...args: Array<unknown>) => void)(...args)
+    if (!recording) {
+      history.onTransactionEnd(record)
+    }
+  }) as SetStoreFunction<T>
+
+  return [store, setStore]
+}
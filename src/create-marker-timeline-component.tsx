@@ -0,0 +1,165 @@
+import clsx from 'clsx'
+import { ComponentProps, createSignal, Index, Show, splitProps } from 'solid-js'
+import type { MarkerApi } from './create-marker-timeline'
+import { useSheet } from './sheet'
+import styles from './timeline.module.css'
+import { createTrackSurface } from './track-surface'
+import { pointerHelper } from './utils/pointer-helper'
+
+/** Size in pixels of the marker flags. */
+const MARKER_SIZE = 6
+
+/**
+ * Row component of a marker timeline.
+ * - double-click on the row adds a marker
+ * - dragging a marker moves it, double-clicking it deletes it
+ * - clicking the name of a marker renames it
+ */
+export function createMarkerTimelineComponent({
+  markers,
+  addMarker,
+  deleteMarker,
+  moveMarker,
+  renameMarker,
+  retime,
+  history,
+}: MarkerApi) {
+  return function MarkerTimeline(props: ComponentProps<'svg'>) {
+    const {
+      addSnapTargets,
+      setIsDraggingHandle,
+      zoomX,
+      snapToFrame,
+      addFrameRateConverter,
+      addFitTargets,
+      linkHistory,
+    } = useSheet()
+    const [, rest] = splitProps(props, ['children', 'class'])
+
+    linkHistory(history)
+    addFrameRateConverter(retime)
+
+    const [editing, setEditing] = createSignal<number>()
+
+    const surface = createTrackSurface({ onAdd: addMarker })
+
+    const height = () => surface.domRect()?.height || 0
+    const projectX = surface.projectX
+
+    addSnapTargets(() => markers().map((marker) => marker.time))
+    addFitTargets(() => markers().map((marker) => marker.time))
+
+    async function onMarkerDragStart(event: PointerEvent, index: number) {
+      const initialTime = markers()[index].time
+
+      setIsDraggingHandle(true)
+
+      await history.transaction(async () => {
+        const { cancelled } = await pointerHelper(event, ({ delta, event }) => {
+          const time = initialTime - delta.x / zoomX()
+          // Markers are snap targets themselves, so they only snap to frames
+          moveMarker(index, event.altKey ? time : snapToFrame(time))
+        })
+        if (cancelled) history.rollback()
+      })
+
+      setIsDraggingHandle(false)
+    }
+
+    return (
+      <svg
+        ref={surface.ref}
+        width="100%"
+        height="100%"
+        class={clsx(props.class, styles.timeline)}
+        {...rest}
+        onPointerDown={(event) => {
+          if (event.target === event.currentTarget) setEditing(undefined)
+          surface.onPointerDown(event)
+        }}
+        onPointerMove={surface.onPointerMove}
+        onPointerLeave={surface.onPointerLeave}
+        onDblClick={surface.onDblClick}
+        onWheel={surface.onWheel}
+      >
+        <Index each={markers()}>
+          {(marker, index) => {
+            const x = () => projectX(marker().time)
+            return (
+              <g class={clsx(styles.marker, styles.handleContainer)}>
+                <line
+                  x1={x()}
+                  x2={x()}
+                  y1={0}
+                  y2={height()}
+                  style={{ 'pointer-events': 'none' }}
+                />
+                <path
+                  class={styles.handle}
+                  d={`M ${x() - MARKER_SIZE} 0 L ${
+                    x() + MARKER_SIZE
+                  } 0 L ${x()} ${MARKER_SIZE * 1.5} Z`}
+                  style={{ 'pointer-events': 'none' }}
+                />
+                <rect
+                  x={x() - MARKER_SIZE * 1.5}
+                  y={0}
+                  width={MARKER_SIZE * 3}
+                  height={height()}
+                  fill="transparent"
+                  style={{ cursor: 'ew-resize' }}
+                  onPointerDown={(event) => onMarkerDragStart(event, index)}
+                  onDblClick={(event) => {
+                    event.stopPropagation()
+                    deleteMarker(index)
+                  }}
+                />
+                <Show
+                  when={editing() === index}
+                  fallback={
+                    <text
+                      class={styles.markerLabel}
+                      x={x() + MARKER_SIZE * 1.5}
+                      y={height() / 2}
+                      onPointerDown={(event) => {
+                        event.stopPropagation()
+                        setEditing(index)
+                      }}
+                    >
+                      {marker().name}
+                    </text>
+                  }
+                >
+                  <foreignObject
+                    x={x() + MARKER_SIZE * 1.5}
+                    y={0}
+                    width={100}
+                    height={height()}
+                  >
+                    <input
+                      ref={(element) => queueMicrotask(() => element.focus())}
+                      type="text"
+                      value={marker().name}
+                      onInput={(e) =>
+                        renameMarker(index, e.currentTarget.value)
+                      }
+                      onBlur={() => setEditing(undefined)}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter' || event.key === 'Escape') {
+                          setEditing(undefined)
+                        }
+                      }}
+                      style={{ width: '100%', height: '100%' }}
+                    />
+                  </foreignObject>
+                </Show>
+              </g>
+            )
+          }}
+        </Index>
+        <surface.Indicators height={height()} />
+        {props.children}
+      </svg>
+    )
+  }
+}
@@ -0,0 +1,27 @@
+// @vitest-environment jsdom
+import { createRoot } from 'solid-js'
+import { describe, expect, it } from 'vitest'
+import { createManualClock } from './create-clock'
+import { createMarkerTimeline } from './create-marker-timeline'
+
+describe('createMarkerTimeline', () => {
+  it('listens to the markers crossed by a bouncing clock', () => {
+    const entered: Array<number> = []
+    const { clock, dispose } = createRoot((dispose) => {
+      const clock = createManualClock({ time: 8, max: 10, loop: 'ping-pong' })
+      const { listen } = createMarkerTimeline({
+        initial: [{ time: 9, name: 'bounce' }],
+      })
+      listen(clock, {
+        onEnter: (_, direction) => entered.push(direction),
+      })
+      return { clock, dispose }
+    })
+
+    const [time, { tick }] = clock
+    tick(4)
+    expect(time()).toBe(8)
+    expect(entered).toEqual([1, -1])
+    dispose()
+  })
+})
@@ -0,0 +1,147 @@
+import { Accessor, createRenderEffect, on } from 'solid-js'
+import { SetStoreFunction } from 'solid-js/store'
+import {
+  createLinkableHistory,
+  createRecordedStore,
+  History,
+} from './create-history'
+import { createMarkerTimelineComponent } from './create-marker-timeline-component'
+import { Clock } from './create-clock'
+import { ClockLeg } from './lib/clock-range'
+import { getMarkerEvents } from './lib/marker-events'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                              Create Marker Timeline                            */
+/*                                                                                */
+/**********************************************************************************/
+
+export type Marker = {
+  time: number
+  name: string
+}
+
+export type MarkerHandlers = {
+  /** Called when the time reaches the marker. */
+  onEnter?(marker: Marker, direction: 1 | -1): void
+  /** Called when the time moves beyond the marker. */
+  onPass?(marker: Marker, direction: 1 | -1): void
+}
+
+export type MarkerApi = {
+  markers: Accessor<Array<Marker>>
+  setMarkers: SetStoreFunction<Array<Marker>>
+  addMarker(time: number, name?: string): void
+  deleteMarker(index: number): void
+  /** Moves a marker, clamped between its neighbours. */
+  moveMarker(index: number, time: number): void
+  renameMarker(index: number, name: string): void
+  /** Maps the times of the markers through `convert`, p.ex when the frame rate of the sheet changes. */
+  retime(convert: (times: Array<number>) => Array<number>): void
+  /**
+   * Calls the handlers for every marker crossed when the time of `clock` changes.
+   * Markers skipped over within a single update are still called, in the order they are crossed,
+   * and in reverse order with a direction of -1 when time moves backwards.
+   * The `legs` of a clock tell wrapping around and bouncing apart from scrubbing. A time accessor,
+   * p.ex the time of the `Sheet`, is handled as moving in a straight line.
+   * The listener is disposed with the calling owner.
+   */
+  listen(clock: Clock | Accessor<number>, handlers: MarkerHandlers): void
+  history: History
+}
+
+/**
+ * Creates a track of named markers, to trigger callbacks at specific times.
+ * The markers of a mounted marker track act as snapping targets for the other tracks of the `Sheet`.
+ */
+export function createMarkerTimeline(config?: {
+  initial?: Array<Marker>
+  history?: History
+}) {
+  const history = config?.history || createLinkableHistory()
+
+  // Every change to the markers is recorded in the history
+  const [markers, setMarkers] = createRecordedStore<Array<Marker>>(
+    [...(config?.initial || [])].sort((a, b) => a.time - b.time),
+    history
+  )
+
+  function addMarker(time: number, name = `Marker ${markers.length + 1}`) {
+    let index = markers.findIndex((marker) => marker.time > time)
+    if (index === -1) index = markers.length
+    setMarkers((markers) => [
+      ...markers.slice(0, index),
+      { time, name },
+      ...markers.slice(index),
+    ])
+  }
+
+  function deleteMarker(index: number) {
+    setMarkers((markers) => markers.filter((_, i) => i !== index))
+  }
+
+  function moveMarker(index: number, time: number) {
+    const pre = markers[index - 1]
+    const post = markers[index + 1]
+
+    // Clamp time with the neighbouring markers, so the order of the markers is kept
+    if (pre && time < pre.time) time = pre.time
+    if (post && time > post.time) time = post.time
+
+    setMarkers(index, 'time', time)
+  }
+
+  function renameMarker(index: number, name: string) {
+    setMarkers(index, 'name', name)
+  }
+
+  function retime(convert: (times: Array<number>) => Array<number>) {
+    const times = convert(markers.map((marker) => marker.time))
+    setMarkers((markers) =>
+      markers.map((marker, index) => ({ ...marker, time: times[index] }))
+    )
+  }
+
+  function listen(clock: Clock | Accessor<number>, handlers: MarkerHandlers) {
+    function emit(legs: Array<ClockLeg>) {
+      getMarkerEvents(
+        markers.map((marker) => marker.time),
+        legs
+      ).forEach(({ type, index, direction }) => {
+        if (type === 'enter') {
+          handlers.onEnter?.(markers[index], direction)
+        } else {
+          handlers.onPass?.(markers[index], direction)
+        }
+      })
+    }
+
+    if (typeof clock === 'function') {
+      createRenderEffect(
+        on(clock, (to, from) => {
+          if (from === undefined) return
+          emit([{ from, to, direction: to >= from ? 1 : -1 }])
+        })
+      )
+    } else {
+      createRenderEffect(on(clock[1].legs, emit, { defer: true }))
+    }
+  }
+
+  const api: MarkerApi = {
+    markers: () => markers,
+    setMarkers,
+    addMarker,
+    deleteMarker,
+    moveMarker,
+    renameMarker,
+    retime,
+    listen,
+    history,
+  }
+
+  return {
+    ...api,
+    Component: createMarkerTimelineComponent(api),
+  }
+}
@@ -1,23 +1,40 @@
 import clsx from 'clsx'
 import {
   Accessor,
+  batch,
   ComponentProps,
   createContext,
   createEffect,
+  createMemo,
   createSignal,
   Index,
-  onCleanup,
   Show,
   splitProps,
   useContext,
 } from 'solid-js'
 import { Api } from './create-timeline'
-import { divideVector, subtractVector } from './lib/vector'
-import { useSheet } from './sheet'
+import {
+  PasteMode,
+  readAnchorsFromClipboard,
+  writeAnchorsToClipboard,
+} from './lib/anchor-clipboard'
+import { INTERPOLATIONS } from './lib/create-cubic-lookup-map'
+import { createLookupHint } from './lib/get-value-from-segments'
+import { getTicks } from './lib/ticks'
+import {
+  addVector,
+  divideVector,
+  multiplyVector,
+  subtractVector,
+} from './lib/vector'
+import { Grid } from './ruler'
+import { SNAP_DISTANCE, useSheet, WHEEL_ZOOM_SPEED } from './sheet'
 import styles from './timeline.module.css'
-import { Anchor as AnchorType, Vector } from './types'
-import { once, whenMemo } from './utils/once-every-when'
-import { pointerHelper } from './utils/pointer-helper'
+import { createTrackSurface } from './track-surface'
+import { Anchor as AnchorType, TangentMode, Vector } from './types'
+import { createWritable } from './utils/create-writable'
+import { whenMemo } from './utils/once-every-when'
+import { longPressHelper, pointerHelper } from './utils/pointer-helper'
 
 /**********************************************************************************/
 /*                                                                                */
@@ -40,6 +57,63 @@ function useTimeline() {
   return context
 }
 
+/**********************************************************************************/
+/*                                                                                */
+/*                                   Value Axis                                   */
+/*                                                                                */
+/**********************************************************************************/
+
+/** Minimum distance in pixels between two labels of the value axis. */
+const VALUE_TICK_SPACING = 30
+
+/**
+ * Labelled horizontal grid lines at the values visible in the timeline.
+ */
+function ValueAxis(props: { width: number; height: number }) {
+  const { origin, zoom, project } = useTimeline()
+  const ticks = createMemo(() =>
+    getTicks(
+      -origin().y,
+      props.height / zoom().y - origin().y,
+      zoom().y,
+      undefined,
+      VALUE_TICK_SPACING
+    )
+  )
+
+  return (
+    <g class={styles.grid} style={{ 'pointer-events': 'none' }}>
+      <Index each={ticks().minor}>
+        {(tick) => (
+          <line
+            class={styles.minor}
+            x1={0}
+            x2={props.width}
+            y1={project(tick(), 'y')}
+            y2={project(tick(), 'y')}
+          />
+        )}
+      </Index>
+      <Index each={ticks().major}>
+        {(tick) => (
+          <>
+            <line
+              class={styles.major}
+              x1={0}
+              x2={props.width}
+              y1={project(tick(), 'y')}
+              y2={project(tick(), 'y')}
+            />
+            <text class={styles.valueLabel} x={4} y={project(tick(), 'y') - 2}>
+              {Math.round(tick() * 100) / 100}
+            </text>
+          </>
+        )}
+      </Index>
+    </g>
+  )
+}
+
 /**********************************************************************************/
 /*                                                                                */
 /*                                     Handle                                     */
@@ -48,15 +122,28 @@ function useTimeline() {
 
 function Handle(props: {
   position: Vector
-  onDragStart(event: MouseEvent): Promise<void>
+  /** Announced by screen readers when the handle is focused. */
+  label: string
+  mode?: TangentMode
+  selected?: boolean
+  onDragStart(event: PointerEvent): Promise<void>
   onDblClick?(e: MouseEvent): void
+  /** Replaces double-clicking for touch and pen. */
+  onLongPress?(): void
+  /** Called when the handle is focused with the keyboard. */
+  onFocus?(): void
+  onKeyDown?(event: KeyboardEvent): void
 }) {
   const { project } = useTimeline()
   const { setIsDraggingHandle } = useSheet()
 
   const [active, setActive] = createSignal(false)
 
-  async function onPointerDown(event: MouseEvent) {
+  async function onPointerDown(event: PointerEvent) {
+    if (event.pointerType !== 'mouse' && props.onLongPress) {
+      longPressHelper(event, props.onLongPress)
+    }
+
     setActive(true)
     setIsDraggingHandle(true)
 
@@ -67,10 +154,18 @@ function Handle(props: {
   }
 
   return (
-    <g class={clsx(styles.handleContainer, active() && styles.active)}>
+    <g
+      class={clsx(
+        styles.handleContainer,
+        active() && styles.active,
+        props.selected && styles.selected,
+        props.mode && styles[props.mode]
+      )}
+    >
       <circle
         cx={project(props.position, 'x')}
         cy={project(props.position, 'y')}
+        class={styles.hitArea}
         fill="transparent"
         onDblClick={(e) => {
           if (props.onDblClick) {
@@ -79,8 +174,16 @@ function Handle(props: {
           }
         }}
         onPointerDown={onPointerDown}
+        onFocus={(event) => {
+          // Clicking a handle focuses it as well, which is handled by onDragStart
+          if (event.currentTarget.matches(':focus-visible')) props.onFocus?.()
+        }}
+        onKeyDown={(event) => props.onKeyDown?.(event)}
         r="10"
         style={{ cursor: 'move' }}
+        tabIndex={0}
+        role="button"
+        aria-label={props.label}
       />
       <circle
         class={styles.handle}
@@ -102,12 +205,15 @@ function Handle(props: {
 function Control(props: {
   position: Vector
   control: Vector
-  onDragStart(event: MouseEvent): Promise<void>
+  label: string
+  mode?: TangentMode
+  onDragStart(event: PointerEvent): Promise<void>
+  onKeyDown(event: KeyboardEvent): void
 }) {
   const { project } = useTimeline()
-  const [, rest] = splitProps(props, ['control', 'position'])
+  const [, rest] = splitProps(props, ['control', 'position', 'mode'])
   return (
-    <g class={styles.controlContainer}>
+    <g class={clsx(styles.controlContainer, props.mode && styles[props.mode])}>
       <line
         stroke="black"
         x1={project(props.position, 'x')}
@@ -129,52 +235,98 @@ function Control(props: {
 
 function Anchor(props: {
   onDeleteAnchor(): void
-  onControlDragStart(type: 'pre' | 'post', event: MouseEvent): Promise<void>
-  onPositionDragStart(event: MouseEvent): Promise<void>
+  onLongPress(): void
+  onControlDragStart(type: 'pre' | 'post', event: PointerEvent): Promise<void>
+  onControlKeyDown(type: 'pre' | 'post', event: KeyboardEvent): void
+  onPositionDragStart(event: PointerEvent): Promise<void>
+  onFocus(): void
+  label: string
+  controlLabel(type: 'pre' | 'post'): string
   position: Vector
   post?: Vector
   pre?: Vector
+  mode?: TangentMode
+  selected: boolean
 }) {
+  // Rendered from left to right, which is also the order of tabbing through the handles
   return (
     <>
       <Show when={props.pre}>
         <Control
           position={props.position}
           control={props.pre!}
+          label={props.controlLabel('pre')}
+          mode={props.mode}
           onDragStart={(event) => props.onControlDragStart('pre', event)}
+          onKeyDown={(event) => props.onControlKeyDown('pre', event)}
         />
       </Show>
+      <Handle
+        position={props.position}
+        label={props.label}
+        selected={props.selected}
+        mode={props.mode}
+        onDragStart={(event) => props.onPositionDragStart(event)}
+        onDblClick={props.onDeleteAnchor}
+        onLongPress={props.onLongPress}
+        onFocus={props.onFocus}
+      />
       <Show when={props.post}>
         <Control
           position={props.position}
           control={props.post!}
+          label={props.controlLabel('post')}
+          mode={props.mode}
           onDragStart={(event) => props.onControlDragStart('post', event)}
+          onKeyDown={(event) => props.onControlKeyDown('post', event)}
         />
       </Show>
-      <Handle
-        position={props.position}
-        onDragStart={(event) => props.onPositionDragStart(event)}
-        onDblClick={props.onDeleteAnchor}
-      />
     </>
   )
 }
 
+/** Distance in pixels kept between the framed anchors and the edges of the timeline. */
+const FRAME_PADDING = 20
+/** Limits of the vertical zoom, relative to the zoom fitting `min` and `max`. */
+const MIN_ZOOM_Y = 0.01
+const MAX_ZOOM_Y = 100
+
+const VELOCITY_SAMPLES = 32
+/** Distance in pixels between the samples of the extrapolated curve. */
+const EXTRAPOLATION_SAMPLE_DISTANCE = 2
+
 export function createTimelineComponent({
   getValue,
+  getVelocity,
   addAnchor,
   d,
   absoluteAnchors,
   setAnchors,
   deleteAnchor,
+  selection,
+  isSelected,
+  select,
+  clearSelection,
+  moveSelection,
+  deleteSelection,
+  setTangentMode,
+  setInterpolation,
+  retime,
+  copy,
+  cut,
+  paste,
+  history,
 }: Api) {
   function Indicator(props: {
     height: number
     time: number
     class?: string
-    onPointerDown?: (event: MouseEvent) => void
+    onPointerDown?: (event: PointerEvent) => void
   }) {
     const { project } = useTimeline()
+    const { formatTime } = useSheet()
+    // Follows the time of the sheet, which mostly moves forward
+    const hint = createLookupHint()
 
     return (
       <g
@@ -187,11 +339,23 @@ export function createTimelineComponent({
           x1={project(props.time, 'x')}
           x2={project(props.time, 'x')}
         />
+        <Show when={props.onPointerDown}>
+          <line
+            class={styles.scrubArea}
+            y1={0}
+            y2={props.height}
+            x1={project(props.time, 'x')}
+            x2={project(props.time, 'x')}
+          />
+        </Show>
         <circle
           cx={project(props.time, 'x')}
-          cy={project(getValue(props.time), 'y')!}
+          cy={project(getValue(props.time, { hint }), 'y')!}
           r={3}
         />
+        <text class={styles.timeLabel} x={project(props.time, 'x') + 4} y={10}>
+          {formatTime(props.time)}
+        </text>
       </g>
     )
   }
@@ -202,24 +366,68 @@ export function createTimelineComponent({
       min: number
       onPan?(pan: number): void
       onTimeChange?(time: number): void
+      /** Called with the zoom of the timeline, in pixels per unit on both axes. */
       onZoomChange?(zoom: Vector): void
+      /**
+       * Called with the vertical zoom relative to the zoom fitting `min` and `max`, as set with `zoomY`,
+       * p.ex when zooming with alt+wheel or framing the anchors.
+       */
+      onZoomYChange?(zoomY: number): void
+      /** How the values of anchors pasted from the clipboard are placed, defaults to `absolute`. */
+      pasteMode?: PasteMode
+      /** Overlays a graph of the velocity, to reveal speed discontinuities between segments. */
+      showVelocity?: boolean
+      /** Initial vertical zoom, relative to the zoom fitting `min` and `max`. */
       zoomY?: number
     }
   ) {
-    const { isDraggingHandle, setPan, zoomX, time, pan } = useSheet()
+    const {
+      isDraggingHandle,
+      zoomX,
+      setViewX,
+      time,
+      setTime,
+      pan,
+      snap,
+      snapToFrame,
+      addFrameRateConverter,
+      addFitTargets,
+      zoomToFit,
+      fps,
+      formatTime,
+      linkHistory,
+    } = useSheet()
     const [config, rest] = splitProps(props, [
       'max',
       'min',
       'onPan',
       'onTimeChange',
       'onZoomChange',
+      'onZoomYChange',
+      'pasteMode',
+      'showVelocity',
       'zoomY',
     ])
 
-    const [domRect, setDomRect] = createSignal<DOMRect>()
+    linkHistory(history)
+    addFrameRateConverter(retime)
+    addFitTargets(() => absoluteAnchors().map(([position]) => position.x))
+
+    const surface = createTrackSurface({
+      onAdd: (time) => addAnchor(time),
+      onDragStart,
+      onPanY: (movement) => setPanY((panY) => panY + movement / zoom().y),
+    })
+    const { domRect, presence } = surface
     const [paddingMax, setPaddingMax] = createSignal(0)
     const [paddingMin, setPaddingMin] = createSignal(0)
-    const [presence, setPresence] = createSignal<number | undefined>(undefined)
+    const [marquee, setMarquee] = createSignal<{ start: Vector; end: Vector }>()
+    // Read by screen readers after editing with the keyboard
+    const [announcement, setAnnouncement] = createSignal('')
+
+    const [zoomY, setZoomY] = createWritable(() => config.zoomY || 1)
+    // Vertical offset of the view in units of value, set by panning and framing
+    const [panY, setPanY] = createSignal(0)
 
     const zoom = whenMemo(
       domRect,
@@ -228,7 +436,7 @@ export function createTimelineComponent({
         y:
           (domRect.height /
             (props.max + paddingMax() + paddingMin() - props.min * 2)) *
-          (config.zoomY || 1),
+          zoomY(),
       }),
       { x: 1, y: 1 }
     )
@@ -238,10 +446,65 @@ export function createTimelineComponent({
         return pan()
       },
       get y() {
-        return (paddingMin() - props.min) / (config.zoomY || 1)
+        return (paddingMin() - props.min) / zoomY() + panY()
       },
     }
 
+    /** Sets the vertical zoom and the vertical origin of the view. */
+    function setViewY(zoom: number, originY: number) {
+      zoom = Math.max(MIN_ZOOM_Y, Math.min(MAX_ZOOM_Y, zoom))
+      batch(() => {
+        setZoomY(zoom)
+        setPanY(originY - (paddingMin() - props.min) / zoom)
+      })
+    }
+
+    /** Zooms vertically with `factor`, keeping the value at pixel `y` in place. */
+    function zoomYAround(factor: number, y: number) {
+      const value = y / zoom().y - origin.y
+      const zoomYPerUnit = zoom().y / zoomY()
+      const next = Math.max(MIN_ZOOM_Y, Math.min(MAX_ZOOM_Y, zoomY() * factor))
+      setViewY(next, y / (next * zoomYPerUnit) - value)
+    }
+
+    /**
+     * Fits both axes of the view to the anchors at `indices`, including their controls.
+     * The horizontal axis is shared with the other tracks of the sheet.
+     */
+    function frame(indices = absoluteAnchors().map((_, index) => index)) {
+      const rect = domRect()
+      if (!rect || indices.length === 0) return
+
+      const points = indices.flatMap((index) => {
+        const [position, controls] = absoluteAnchors()[index]
+        return [position, controls?.pre, controls?.post].filter(
+          (point): point is Vector => !!point
+        )
+      })
+      const xs = points.map(({ x }) => x)
+      const ys = points.map(({ y }) => y)
+      const [minX, maxX] = [Math.min(...xs), Math.max(...xs)]
+      const [minY, maxY] = [Math.min(...ys), Math.max(...ys)]
+
+      batch(() => {
+        // A single time or value is centered at the current zoom
+        if (maxX > minX) {
+          const _zoomX = (rect.width - FRAME_PADDING * 2) / (maxX - minX)
+          setViewX(_zoomX, FRAME_PADDING / _zoomX - minX)
+        } else {
+          setViewX(zoom().x, rect.width / 2 / zoom().x - minX)
+        }
+
+        const zoomYPerUnit = zoom().y / zoomY()
+        if (maxY > minY) {
+          const _zoomY = (rect.height - FRAME_PADDING * 2) / (maxY - minY)
+          setViewY(_zoomY / zoomYPerUnit, FRAME_PADDING / _zoomY - minY)
+        } else {
+          setViewY(zoomY(), rect.height / 2 / zoom().y - minY)
+        }
+      })
+    }
+
     function project(point: Vector | number, type: 'x' | 'y') {
       const value = typeof point === 'object' ? point[type] : point
       return (value + origin[type]) * zoom()[type]
@@ -269,16 +532,18 @@ export function createTimelineComponent({
      * `absoluteToRelativeControl` applies 3 operations on the given absolute control-vector:
      * - Clamps absolute x-value to ensure monotonicity of the curve
      * - Absolute x-value to relative x-value (range 0-1)
-     * - Absolute y-value to relative y-value (offset from position)
+     * - Absolute y-value to relative y-value (offset from position), floored unless `floor` is false
      */
     function absoluteToRelativeControl({
       type,
       index,
       absoluteControl,
+      floor = true,
     }: {
       type: 'pre' | 'post'
       index: number
       absoluteControl: Vector
+      floor?: boolean
     }) {
       const [position] = absoluteAnchors()[index]
       const pairedPosition = getPairedAnchorPosition(type, index)
@@ -295,33 +560,34 @@ export function createTimelineComponent({
       // Clamp x to ensure monotonicity of the curve (https://en.wikipedia.org/wiki/Monotonic_function)
       const x = Math.max(min.x, Math.min(max.x, absoluteControl.x))
 
+      const y = absoluteControl.y - position.y
+
       return {
         // Absolute value to absolute offset from position
-        y: Math.floor(absoluteControl.y - position.y),
+        y: floor ? Math.floor(y) : y,
         // Absolute value to relative range [0-1]
         x: Math.abs(position.x - x) / Math.abs(position.x - pairedPosition.x),
       }
     }
 
-    async function onControlDragStart({
-      type,
-      event,
-      anchor: [position, controls],
-      index,
-    }: {
-      type: 'pre' | 'post'
-      event: MouseEvent
-      anchor: AnchorType
-      index: number
-    }) {
-      const initialControl = { ...controls![type]! }
+    /**
+     * Prepares moving the control of type `type` of the anchor at `index`, converting derived tangent modes.
+     * Returns a function that moves the control to an absolute position, clamped to keep the curve monotonic.
+     * Dragged values are floored to whole units, pass `floor: false` for precise moves like keyboard nudges.
+     */
+    function startControlMove(
+      type: 'pre' | 'post',
+      index: number,
+      options?: { floor?: boolean }
+    ) {
+      const [position, controls] = absoluteAnchors()[index]
+      const pairedType = type === 'pre' ? 'post' : 'pre'
 
       const prePosition = getPairedAnchorPosition('pre', index)
       const postPosition = getPairedAnchorPosition('post', index)
       const preRange = prePosition && subtractVector(position, prePosition)
       const postRange = postPosition && subtractVector(position, postPosition)
 
-      const pairedType = type === 'pre' ? 'post' : 'pre'
       const ratio =
         preRange && postRange
           ? type === 'pre'
@@ -329,64 +595,436 @@ export function createTimelineComponent({
             : preRange.x / postRange.x
           : undefined
 
-      await pointerHelper(event, ({ delta, event }) => {
-        delta = divideVector(delta, zoom())
+      let mode = controls?.mode
 
-        const absoluteControl = subtractVector(initialControl, delta)
+      // Like in Blender, manually dragging derived controls converts the tangent mode
+      if (mode === 'auto' || mode === 'vector') {
+        mode = mode === 'auto' ? 'aligned' : 'broken'
+        setTangentMode(mode, [index])
+      }
+
+      // Length of the paired control, kept while aligning
+      const pairedControl = controls?.[pairedType]
+      const pairedLength =
+        pairedControl &&
+        Math.hypot(pairedControl.x - position.x, pairedControl.y - position.y)
+
+      return (absoluteControl: Vector, symmetric: boolean) => {
         const control = absoluteToRelativeControl({
           index,
           type,
           absoluteControl,
+          floor: options?.floor,
         })
+
+        if (mode === 'flat') {
+          control.y = 0
+        }
+
         setAnchors(index, 1, type, control)
 
         // Symmetric dragging of paired control
-        if (event.metaKey && ratio) {
+        if (symmetric && ratio) {
           setAnchors(index, 1, pairedType, {
             x: control.x,
             y: control.y * ratio,
           })
+        } else if (mode === 'aligned' && pairedLength) {
+          const direction = subtractVector(absoluteControl, position)
+          const length = Math.hypot(direction.x, direction.y)
+          if (length === 0) return
+          setAnchors(
+            index,
+            1,
+            pairedType,
+            absoluteToRelativeControl({
+              index,
+              type: pairedType,
+              absoluteControl: subtractVector(
+                position,
+                multiplyVector(direction, pairedLength / length)
+              ),
+              floor: options?.floor,
+            })
+          )
         }
+      }
+    }
+
+    async function onControlDragStart({
+      type,
+      event,
+      anchor: [, controls],
+      index,
+    }: {
+      type: 'pre' | 'post'
+      event: PointerEvent
+      anchor: AnchorType
+      index: number
+    }) {
+      const initialControl = { ...controls![type]! }
+
+      await history.transaction(async () => {
+        const moveControl = startControlMove(type, index)
+        const { cancelled } = await pointerHelper(event, ({ delta, event }) => {
+          delta = divideVector(delta, zoom())
+          moveControl(subtractVector(initialControl, delta), event.metaKey)
+        })
+        // A cancelled drag, p.ex interrupted by a system gesture, is reverted
+        if (cancelled) history.rollback()
       })
 
       updatePadding()
     }
 
+    /** Nudges a control with the arrow keys, with the same steps as the anchors. */
+    function onControlKeyDown(
+      type: 'pre' | 'post',
+      index: number,
+      event: KeyboardEvent
+    ) {
+      const nudge = getNudge(event)
+      const control = absoluteAnchors()[index][1]?.[type]
+      if (!nudge || !control) return
+
+      event.preventDefault()
+      // The timeline would otherwise move the selected anchors as well
+      event.stopPropagation()
+
+      history.transaction(() =>
+        startControlMove(type, index, { floor: false })(
+          addVector(control, nudge),
+          false
+        )
+      )
+      updatePadding()
+      setAnnouncement(describeControl(type, index))
+    }
+
     async function onPositionDragStart({
-      anchor,
       event,
       index,
     }: {
-      anchor: AnchorType
-      event: MouseEvent
+      event: PointerEvent
       index: number
     }) {
-      const initialPosition = { ...anchor[0] }
+      if (event.shiftKey) {
+        select(index, 'toggle')
+        // Shift-clicking a selected anchor only removes it from the selection
+        if (!isSelected(index)) return
+      } else if (!isSelected(index)) {
+        select(index)
+      }
+
+      const initialPositions = selection().map((index) => ({
+        ...absoluteAnchors()[index][0],
+      }))
+      const initialPosition = { ...absoluteAnchors()[index][0] }
+
+      await history.transaction(async () => {
+        const { cancelled } = await pointerHelper(event, ({ delta, event }) => {
+          delta = divideVector(delta, zoom())
+          // Snap the dragged anchor to the snap targets of the sheet, alt disables snapping
+          if (!event.altKey) {
+            const x = snap(
+              initialPosition.x - delta.x,
+              SNAP_DISTANCE / zoom().x
+            )
+            delta.x = initialPosition.x - x
+          }
+          moveSelection(multiplyVector(delta, -1), initialPositions)
+        })
+        if (cancelled) history.rollback()
+      })
 
-      const pre = getPairedAnchorPosition('pre', index)
-      const post = getPairedAnchorPosition('post', index)
+      updatePadding()
+    }
 
+    /** Dragging the time indicator scrubs the time of the sheet. */
+    async function onScrubStart(event: PointerEvent) {
+      event.stopPropagation()
+      const initialTime = time()
       await pointerHelper(event, ({ delta }) => {
-        delta = divideVector(delta, zoom())
+        const time = setTime(initialTime - delta.x / zoom().x)
+        config.onTimeChange?.(time)
+      })
+    }
 
-        const position = subtractVector(initialPosition, delta)
+    /** Alt-dragging the background pans vertically, dragging it draws a marquee. */
+    async function onDragStart(event: PointerEvent) {
+      if (event.altKey) {
+        const y = panY()
+        await pointerHelper(event, ({ delta }) => {
+          setPanY(y - delta.y / zoom().y)
+        })
+      } else {
+        await onMarqueeStart(event)
+      }
+    }
 
-        // Clamp position with the pre-anchor's position
-        if (pre && position.x - 1 < pre.x) {
-          position.x = pre.x + 1
-        }
+    async function onMarqueeStart(event: PointerEvent) {
+      const start = { x: event.layerX, y: event.layerY }
+      const mode = event.shiftKey ? 'add' : 'replace'
 
-        // Clamp position with the pre-anchor's position
-        if (post && position.x + 1 > post.x) {
-          position.x = post.x - 1
-        }
+      if (mode === 'replace') clearSelection()
 
-        setAnchors(index, 0, position)
+      const { delta, cancelled } = await pointerHelper(event, ({ delta }) => {
+        setMarquee({ start, end: subtractVector(start, delta) })
       })
 
+      setMarquee(undefined)
+
+      // A click without movement only clears the selection
+      if (cancelled || (delta.x === 0 && delta.y === 0)) return
+
+      const end = subtractVector(start, delta)
+      const [minX, maxX] = [Math.min(start.x, end.x), Math.max(start.x, end.x)]
+      const [minY, maxY] = [Math.min(start.y, end.y), Math.max(start.y, end.y)]
+
+      const indices = absoluteAnchors()
+        .map(([position], index) => {
+          const x = project(position, 'x')
+          const y = project(position, 'y')
+          return minX <= x && x <= maxX && minY <= y && y <= maxY
+            ? index
+            : undefined
+        })
+        .filter((index): index is number => index !== undefined)
+
+      select(indices, mode)
+    }
+
+    /**
+     * Copying and cutting writes the selected anchors to the system clipboard,
+     * pasting inserts anchors from the clipboard at the time of the sheet.
+     */
+    function onClipboard(event: ClipboardEvent) {
+      const data = event.clipboardData
+      if (!data) return
+
+      if (event.type === 'paste') {
+        const anchors = readAnchorsFromClipboard(data)
+        if (!anchors) return
+        event.preventDefault()
+        const _time = snapToFrame(time())
+        paste(anchors, _time, { mode: config.pasteMode })
+        setAnnouncement(
+          `Pasted ${anchors.length} anchor${
+            anchors.length === 1 ? '' : 's'
+          } at time ${formatTime(_time)}`
+        )
+      } else {
+        if (selection().length === 0) return
+        event.preventDefault()
+        const anchors = event.type === 'cut' ? cut() : copy()
+        writeAnchorsToClipboard(data, anchors)
+        setAnnouncement(
+          `${event.type === 'cut' ? 'Cut' : 'Copied'} ${anchors.length} anchor${
+            anchors.length === 1 ? '' : 's'
+          }`
+        )
+      }
+      updatePadding()
+    }
+
+    /**
+     * Offset of the arrow key of `event`: a frame in time, or a unit of value.
+     * Shift makes the step 10 times bigger, alt 10 times smaller.
+     */
+    function getNudge(event: KeyboardEvent): Vector | undefined {
+      const factor = event.shiftKey ? 10 : event.altKey ? 0.1 : 1
+      const _fps = fps()
+      const x = (_fps ? 1000 / _fps : 1) * factor
+      switch (event.key) {
+        case 'ArrowLeft':
+          return { x: -x, y: 0 }
+        case 'ArrowRight':
+          return { x, y: 0 }
+        case 'ArrowUp':
+          return { x: 0, y: -factor }
+        case 'ArrowDown':
+          return { x: 0, y: factor }
+      }
+    }
+
+    const describePoint = ({ x, y }: Vector) =>
+      `time ${formatTime(x)}, value ${Math.round(y * 100) / 100}`
+
+    function describeAnchor(index: number) {
+      return `Anchor ${index + 1} of ${
+        absoluteAnchors().length
+      }, ${describePoint(absoluteAnchors()[index][0])}`
+    }
+
+    function describeControl(type: 'pre' | 'post', index: number) {
+      const control = absoluteAnchors()[index][1]?.[type]
+      return `${type === 'pre' ? 'Incoming' : 'Outgoing'} control of anchor ${
+        index + 1
+      }${control ? `, ${describePoint(control)}` : ''}`
+    }
+
+    /**
+     * Sets the interpolation of the selected segments to the one following
+     * the interpolation of the first selected segment.
+     */
+    function cycleInterpolation(indices = selection()) {
+      const current =
+        absoluteAnchors()[indices[0]]?.[1]?.interpolation || 'bezier'
+      setInterpolation(
+        INTERPOLATIONS[
+          (INTERPOLATIONS.indexOf(current) + 1) % INTERPOLATIONS.length
+        ],
+        indices
+      )
+    }
+
+    function onKeyDown(event: KeyboardEvent) {
+      if (event.metaKey || event.ctrlKey) {
+        const key = event.key.toLowerCase()
+        if (key === 'z' && !event.shiftKey) {
+          history.undo()
+        } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+          history.redo()
+        } else {
+          return
+        }
+        event.preventDefault()
+        updatePadding()
+        return
+      }
+
+      const nudge = getNudge(event)
+      if (nudge) {
+        event.preventDefault()
+        moveSelection(nudge)
+        updatePadding()
+        const [index] = selection()
+        if (index !== undefined) setAnnouncement(describeAnchor(index))
+        return
+      }
+
+      switch (event.key) {
+        case 'Delete':
+        case 'Backspace':
+          setAnnouncement(
+            `Deleted ${selection().length} anchor${
+              selection().length === 1 ? '' : 's'
+            }`
+          )
+          deleteSelection()
+          break
+        case 'Escape':
+          clearSelection()
+          break
+        case 'Enter': {
+          const _time = snapToFrame(time())
+          addAnchor(_time)
+          setAnnouncement(`Added anchor at time ${formatTime(_time)}`)
+          break
+        }
+        case 'a':
+          setTangentMode('auto')
+          break
+        case 'l':
+          setTangentMode('aligned')
+          break
+        case 'b':
+          setTangentMode('broken')
+          break
+        case 'v':
+          setTangentMode('vector')
+          break
+        case 'f':
+          setTangentMode('flat')
+          break
+        case 'i':
+          cycleInterpolation()
+          break
+        case 'Home':
+          // Shift+Home fits the times of all the tracks of the sheet
+          if (event.shiftKey) {
+            zoomToFit()
+          } else {
+            frame()
+          }
+          break
+        case '.':
+          frame(selection().length > 0 ? selection() : undefined)
+          break
+        default:
+          return
+      }
+      event.preventDefault()
       updatePadding()
     }
 
+    /**
+     * Path of the curve outside of the anchors, sampled from the visible part of the timeline.
+     */
+    function extrapolationD(type: 'pre' | 'post') {
+      const width = domRect()?.width
+      const anchors = absoluteAnchors()
+      if (!width || anchors.length === 0) return ''
+
+      const [start, end] =
+        type === 'pre'
+          ? [-pan(), anchors[0][0].x]
+          : [anchors[anchors.length - 1][0].x, width / zoom().x - pan()]
+
+      if (start >= end) return ''
+
+      const samples = Math.ceil(
+        ((end - start) * zoom().x) / EXTRAPOLATION_SAMPLE_DISTANCE
+      )
+
+      return (
+        'M ' +
+        Array.from({ length: samples + 1 }, (_, index) => {
+          const x = start + ((end - start) * index) / samples
+          return `${project(x, 'x')} ${project(getValue(x), 'y')}`
+        }).join(' L ')
+      )
+    }
+
+    /**
+     * Path of the velocity graph, normalized to the height of the timeline.
+     * Every segment is a separate sub-path, so discontinuities show up as jumps.
+     */
+    function velocityD() {
+      const height = domRect()?.height
+      if (!height) return ''
+
+      const segments = absoluteAnchors()
+        .slice(0, -1)
+        .map(([start], index) => {
+          const end = absoluteAnchors()[index + 1][0]
+          return Array.from({ length: VELOCITY_SAMPLES + 1 }, (_, sample) => {
+            const x = start.x + ((end.x - start.x) * sample) / VELOCITY_SAMPLES
+            // Evaluate slightly inside the segment, so the boundaries are not shared
+            const time = Math.max(start.x + 1e-6, Math.min(end.x - 1e-6, x))
+            return { x, y: getVelocity(time) }
+          })
+        })
+
+      const max = Math.max(
+        ...segments.flat().map(({ y }) => Math.abs(y)),
+        Number.EPSILON
+      )
+
+      return segments
+        .map(
+          (samples) =>
+            'M ' +
+            samples
+              .map(
+                ({ x, y }) =>
+                  `${project(x, 'x')} ${height / 2 - (y / max) * height * 0.4}`
+              )
+              .join(' L ')
+        )
+        .join(' ')
+    }
+
     function maxPaddingFromVector(value: Vector) {
       return Math.max(value.y, props.max) - props.max + 100
     }
@@ -425,53 +1063,58 @@ export function createTimelineComponent({
       >
         <svg
           ref={(element) => {
-            function updateDomRect() {
-              setDomRect(element.getBoundingClientRect())
-            }
-            const observer = new ResizeObserver(updateDomRect)
-            observer.observe(element)
-            updateDomRect()
-            onCleanup(() => observer.disconnect())
+            surface.ref(element)
 
             updatePadding()
             createEffect(() => props.onZoomChange?.(zoom()))
+            createEffect(() => props.onZoomYChange?.(zoomY()))
             createEffect(() => props.onPan?.(pan()))
           }}
           width="100%"
           height="100%"
           class={clsx(props.class, styles.timeline)}
+          tabIndex={0}
+          aria-label="Timeline"
           {...rest}
-          onPointerDown={async (event) => {
+          onPointerDown={(event) => {
             if (event.target !== event.currentTarget) {
               console.log(event.target)
               return
             }
-            if (event.metaKey) {
-              const x = pan()
-              await pointerHelper(event, ({ delta, event }) => {
-                setPan(x - delta.x / zoom().x)
-                setPresence(event.layerX / zoom().x - pan())
-              })
-            }
-          }}
-          onPointerMove={(e) => {
-            setPresence(e.layerX / zoom().x - pan())
-          }}
-          onPointerLeave={() => {
-            setPresence(undefined)
-          }}
-          onDblClick={() => {
-            once(presence, addAnchor)
+            surface.onPointerDown(event)
           }}
+          onKeyDown={onKeyDown}
+          onCopy={onClipboard}
+          onCut={onClipboard}
+          onPaste={onClipboard}
+          onPointerMove={surface.onPointerMove}
+          onPointerLeave={surface.onPointerLeave}
+          onDblClick={surface.onDblClick}
           onWheel={(e) => {
-            setPan((pan) => pan + e.deltaX)
+            // Alt+wheel zooms vertically around the cursor
+            if (e.altKey) {
+              e.preventDefault()
+              zoomYAround(Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), e.layerY)
+              return
+            }
+            surface.onWheel(e)
           }}
         >
+          <Grid width={domRect()?.width || 0} height={domRect()?.height || 0} />
+          <ValueAxis
+            width={domRect()?.width || 0}
+            height={domRect()?.height || 0}
+          />
           <path
             class={styles.path}
             d={d({ zoom: zoom(), origin: origin })}
             style={{ 'pointer-events': 'none' }}
           />
+          <path class={styles.extrapolation} d={extrapolationD('pre')} />
+          <path class={styles.extrapolation} d={extrapolationD('post')} />
+          <Show when={config.showVelocity}>
+            <path class={styles.velocity} d={velocityD()} />
+          </Show>
           <Show when={!isDraggingHandle() && presence()}>
             {(presence) => (
               <Indicator
@@ -481,27 +1124,96 @@ export function createTimelineComponent({
               />
             )}
           </Show>
-          <Indicator height={window.innerHeight} time={time()} />
+          <Indicator
+            height={window.innerHeight}
+            time={time()}
+            onPointerDown={onScrubStart}
+          />
           <Index each={absoluteAnchors()}>
             {(anchor, index) => {
               const position = () => anchor()[0]
-              const control = (type: 'pre' | 'post') => anchor()[1]?.[type]
+              // Controls are only shown on segments interpolated as bezier
+              const isBezier = (index: number) => {
+                const interpolation =
+                  absoluteAnchors()[index]?.[1]?.interpolation
+                return !interpolation || interpolation === 'bezier'
+              }
+              const control = (type: 'pre' | 'post') =>
+                isBezier(type === 'pre' ? index - 1 : index)
+                  ? anchor()[1]?.[type]
+                  : undefined
+              const next = () => absoluteAnchors()[index + 1]
               return (
-                <Anchor
-                  position={position()}
-                  pre={control('pre')}
-                  post={control('post')}
-                  onDeleteAnchor={() => deleteAnchor(index)}
-                  onControlDragStart={(type, event) =>
-                    onControlDragStart({ type, event, index, anchor: anchor() })
-                  }
-                  onPositionDragStart={(event) =>
-                    onPositionDragStart({ event, index, anchor: anchor() })
-                  }
-                />
+                <>
+                  <Show when={isSelected(index) && next()}>
+                    {(next) => {
+                      const time = () => (position().x + next()[0].x) / 2
+                      return (
+                        <text
+                          class={styles.interpolation}
+                          x={project(time(), 'x')}
+                          y={project(getValue(time()), 'y')}
+                          onPointerDown={(event) => {
+                            event.stopPropagation()
+                            cycleInterpolation([index])
+                          }}
+                        >
+                          {anchor()[1]?.interpolation || 'bezier'}
+                        </text>
+                      )
+                    }}
+                  </Show>
+                  <Anchor
+                    position={position()}
+                    pre={control('pre')}
+                    post={control('post')}
+                    mode={anchor()[1]?.mode}
+                    selected={isSelected(index)}
+                    label={describeAnchor(index)}
+                    controlLabel={(type) => describeControl(type, index)}
+                    onFocus={() => {
+                      // Focusing an anchor with the keyboard selects it, like clicking it
+                      if (!isSelected(index)) select(index)
+                    }}
+                    onControlKeyDown={(type, event) =>
+                      onControlKeyDown(type, index, event)
+                    }
+                    onDeleteAnchor={() => deleteAnchor(index)}
+                    onLongPress={() => {
+                      // The anchor is still being dragged: without a selection the drag does nothing
+                      clearSelection()
+                      deleteAnchor(index)
+                    }}
+                    onControlDragStart={(type, event) =>
+                      onControlDragStart({
+                        type,
+                        event,
+                        index,
+                        anchor: anchor(),
+                      })
+                    }
+                    onPositionDragStart={(event) =>
+                      onPositionDragStart({ event, index })
+                    }
+                  />
+                </>
               )
             }}
           </Index>
+          <Show when={marquee()}>
+            {(marquee) => (
+              <rect
+                class={styles.marquee}
+                x={Math.min(marquee().start.x, marquee().end.x)}
+                y={Math.min(marquee().start.y, marquee().end.y)}
+                width={Math.abs(marquee().start.x - marquee().end.x)}
+                height={Math.abs(marquee().start.y - marquee().end.y)}
+              />
+            )}
+          </Show>
+          <text class={styles.announcement} aria-live="polite">
+            {announcement()}
+          </text>
           {props.children}
         </svg>
       </TimelineContext.Provider>
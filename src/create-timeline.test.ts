@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { createRoot } from 'solid-js'
+import { describe, expect, it } from 'vitest'
+import { createTimeline } from './create-timeline'
+import { Anchors } from './types'
+
+describe('createTimeline', () => {
+  it('validates initial anchors', () => {
+    createRoot((dispose) => {
+      expect(() =>
+        createTimeline({
+          initial: [[{ x: 0, y: 0 }, { pre: { x: 0.5, y: 0 } }]],
+        })
+      ).toThrow(/anchors\[0\]\[1\]\.pre/)
+      dispose()
+    })
+  })
+
+  it('normalizes initial anchors', () => {
+    createRoot((dispose) => {
+      const { anchors } = createTimeline({
+        initial: [
+          [{ x: 10, y: 1 }],
+          [{ x: 0, y: 0 }, { pre: { x: 0.5, y: 0 } }],
+        ],
+        normalize: true,
+      })
+      expect(anchors()).toEqual([[{ x: 0, y: 0 }], [{ x: 10, y: 1 }]])
+      dispose()
+    })
+  })
+
+  it('pastes anchors with absolute and relative values', () => {
+    createRoot((dispose) => {
+      const timeline = createTimeline({
+        initial: [[{ x: 0, y: 0 }], [{ x: 100, y: 100 }]],
+      })
+      const copied: Anchors = [
+        [{ x: 0, y: 10 }, { post: { x: 0.5, y: 5 } }],
+        [{ x: 10, y: 20 }, { pre: { x: 0.5, y: -5 } }],
+      ]
+
+      timeline.paste(copied, 50)
+      expect(timeline.anchors()).toEqual([
+        [{ x: 0, y: 0 }],
+        [{ x: 50, y: 10 }, { post: { x: 0.5, y: 5 } }],
+        [{ x: 60, y: 20 }, { pre: { x: 0.5, y: -5 } }],
+        [{ x: 100, y: 100 }],
+      ])
+      expect(timeline.selection()).toEqual([1, 2])
+
+      timeline.history.undo()
+      // The value at the paste time is 50: the pasted anchors continue from it
+      timeline.paste(copied, 50, { mode: 'relative' })
+      expect(timeline.anchors().map(([position]) => position)).toEqual([
+        { x: 0, y: 0 },
+        { x: 50, y: 50 },
+        { x: 60, y: 60 },
+        { x: 100, y: 100 },
+      ])
+      dispose()
+    })
+  })
+
+  it('replaces the anchors in the range of the pasted anchors', () => {
+    createRoot((dispose) => {
+      const timeline = createTimeline({
+        initial: [[{ x: 0, y: 0 }], [{ x: 5, y: 5 }], [{ x: 20, y: 0 }]],
+      })
+      timeline.paste(timeline.copy([0, 1]), 4)
+      expect(timeline.anchors().map(([position]) => position)).toEqual([
+        { x: 0, y: 0 },
+        { x: 4, y: 0 },
+        { x: 9, y: 5 },
+        { x: 20, y: 0 },
+      ])
+      dispose()
+    })
+  })
+})
@@ -1,12 +1,50 @@
-import { Accessor } from 'solid-js'
-import { createStore, produce, SetStoreFunction } from 'solid-js/store'
+import { Accessor, batch, createMemo, createSignal } from 'solid-js'
+import { produce, reconcile, SetStoreFunction } from 'solid-js/store'
+import {
+  createLinkableHistory,
+  createRecordedStore,
+  History,
+} from './create-history'
 import { createTimelineComponent } from './create-timeline-component'
 import { createValueComponent } from './create-value-component'
+import { copyAnchors, PasteMode } from './lib/anchor-clipboard'
 import { createLookupMap } from './lib/create-cubic-lookup-map'
 import { dFromAbsoluteAnchors } from './lib/d-from-anchors'
-import { getValueFromSegments } from './lib/get-value-from-segments'
-import { addVector } from './lib/vector'
-import type { Anchor, Anchors, Segment, Vector } from './types'
+import { getValueFromSegments, LookupHint } from './lib/get-value-from-segments'
+import {
+  applyEasingToAnchors,
+  EasingPreset,
+  EasingPresetName,
+  getEasingPreset,
+} from './lib/easing-presets'
+import {
+  animateAbsoluteAnchors,
+  KeyframesConfig,
+  keyframesFromAbsoluteAnchors,
+  KeyframesResult,
+} from './lib/keyframes-from-anchors'
+import {
+  deserializeAnchors,
+  SerializedAnchors,
+  serializeAnchors,
+} from './lib/serialize-anchors'
+import {
+  resolveAbsoluteAnchor,
+  resolveRelativeControls,
+} from './lib/tangent-mode'
+import { ExtrapolationConfig, mapExtrapolatedTime } from './lib/extrapolate'
+import {
+  getDerivativesFromAbsoluteAnchors,
+  getExactValueFromAbsoluteAnchors,
+} from './lib/solve-bezier'
+import type {
+  Anchor,
+  Anchors,
+  Interpolation,
+  Segment,
+  TangentMode,
+  Vector,
+} from './types'
 import { createIndexMemo } from './utils/create-index-memo'
 
 /**********************************************************************************/
@@ -19,96 +57,455 @@ export type Api = {
   absoluteAnchors: Accessor<Array<Anchor>>
   anchors: Accessor<Array<Anchor>>
   d(config?: { zoom?: Partial<Vector>; origin?: Partial<Vector> }): string
-  getValue(time: number): number
+  getValue(time: number, config?: GetValueOptions): number
+  /** Rate of change of the value per unit of time, computed analytically. */
+  getVelocity(time: number): number
+  /** Rate of change of the velocity per unit of time, computed analytically. */
+  getAcceleration(time: number): number
+  extrapolation: Accessor<ExtrapolationConfig>
+  setExtrapolation(extrapolation: Partial<ExtrapolationConfig>): void
   setAnchors: SetStoreFunction<Array<Anchor>>
   deleteAnchor(index: number): void
   addAnchor(time: number, value?: number): void
+  selection: Accessor<Array<number>>
+  isSelected(index: number): boolean
+  select(indices: number | Array<number>, mode?: SelectionMode): void
+  clearSelection(): void
+  moveSelection(delta: Vector, initialPositions?: Array<Vector>): void
+  deleteSelection(): void
+  /**
+   * Copies the anchors at `indices`, defaults to the selection.
+   * The copied anchors can be pasted in any timeline, see `anchor-clipboard` for the format.
+   */
+  copy(indices?: Array<number>): Anchors
+  /** Copies and deletes the anchors at `indices`, defaults to the selection. */
+  cut(indices?: Array<number>): Anchors
+  /**
+   * Pastes copied anchors starting at `time`, replacing the anchors within the pasted range.
+   * The pasted anchors are selected.
+   */
+  paste(anchors: Anchors, time: number, options?: { mode?: PasteMode }): void
+  /** Sets the tangent mode of the anchors at `indices`, defaults to the selection. */
+  setTangentMode(mode: TangentMode, indices?: Array<number>): void
+  /** Sets the interpolation of the segments starting at `indices`, defaults to the selection. */
+  setInterpolation(interpolation: Interpolation, indices?: Array<number>): void
+  /**
+   * Applies an easing preset, p.ex `easeOutBack` or `cubic-bezier(0.5, 0, 0.5, 1)`,
+   * to the segments starting at `indices`, defaults to the selection.
+   */
+  applyEasing(
+    preset: EasingPresetName | string | EasingPreset,
+    indices?: Array<number>
+  ): void
+  /** Maps the times of the anchors through `convert`, p.ex when the frame rate of the sheet changes. */
+  retime(convert: (times: Array<number>) => Array<number>): void
+  history: History
+  serialize(): string
+  keyframes(property: string, config?: KeyframesConfig): KeyframesResult
+  animate(
+    element: Element,
+    property: string,
+    options?: KeyframesConfig & KeyframeAnimationOptions
+  ): Animation
 }
 
-export function createTimeline(config?: { initial?: Anchors }) {
-  const [anchors, setAnchors] = createStore<Anchors>(config?.initial || [])
+export type SelectionMode = 'replace' | 'add' | 'toggle'
 
-  const absoluteAnchors = createIndexMemo(
-    () => anchors,
-    ([point, relativeControls], index) => {
-      const controls: { pre?: Vector; post?: Vector } = {
-        pre: undefined,
-        post: undefined,
-      }
+/**
+ * How `getValue` evaluates the curve:
+ * - `lookup`: linear interpolation of a polyline sampled from each segment. The amount of samples
+ *   adapts to the curvature of the segment, so the polyline stays within `LOOKUP_TOLERANCE` (0.05)
+ *   of the curve, capped at 512 samples per segment. The distance is measured perpendicular to the
+ *   polyline: on steep segments the error in value at a given time is larger, use `exact` there.
+ * - `exact`: solves t for x with Newton-Raphson and a bisection fallback, and evaluates y at t.
+ *   The error in y is at most `X_TOLERANCE * |dy/dx|`, with `X_TOLERANCE = 1e-7`.
+ */
+export type Evaluation = 'lookup' | 'exact'
 
-      const pre = relativeControls?.pre
-      if (pre) {
-        const prev = anchors[index - 1][0]
-        const deltaX = point.x - prev.x
-        controls.pre = addVector(point, {
-          x: deltaX * pre.x * -1,
-          y: pre.y,
-        })
-      }
+export type GetValueOptions = {
+  evaluation?: Evaluation
+  /**
+   * Speeds up `lookup` evaluation of increasing times, p.ex during playback.
+   * Create one with `createLookupHint` per caller, one-off queries do not need one.
+   */
+  hint?: LookupHint
+}
 
-      const post = relativeControls?.post
-      if (post) {
-        const next = anchors[index + 1][0]
-        const deltaX = next.x - point.x
-        controls.post = addVector(point, {
-          x: deltaX * post.x,
-          y: post.y,
-        })
-      }
+/**
+ * Creates a timeline.
+ * `initial` accepts both `Anchors` and the output of `serialize`, which are validated on load.
+ * Pass the same `history` to multiple timelines (and their `Sheet`) to share a single undo/redo history.
+ * Without a `history`, the changes are recorded in the history of the `Sheet` the timeline is mounted in.
+ */
+export function createTimeline(config?: {
+  initial?: Anchors | SerializedAnchors | string
+  /** Coerce an invalid `initial` into valid anchors instead of throwing. */
+  normalize?: boolean
+  history?: History
+  /** Default evaluation of `getValue`, defaults to `lookup`. */
+  evaluation?: Evaluation
+  /** Extrapolation before the first and after the last anchor, defaults to `hold`. */
+  extrapolation?: Partial<ExtrapolationConfig>
+}) {
+  const initial = config?.initial
+  const [selection, setSelection] = createSignal<Array<number>>([])
+  const [extrapolation, setExtrapolation] = createSignal<ExtrapolationConfig>({
+    pre: 'hold',
+    post: 'hold',
+    ...config?.extrapolation,
+  })
+  const history = config?.history || createLinkableHistory()
 
-      return [point, controls] as Anchor
+  // Every change to the anchors is recorded in the history
+  const [anchors, setAnchors] = createRecordedStore<Anchors>(
+    initial
+      ? deserializeAnchors(initial, { normalize: config?.normalize })
+      : [],
+    history,
+    {
+      onRestore: () =>
+        setSelection((selection) =>
+          selection.filter((index) => index < anchors.length)
+        ),
     }
   )
 
+  const absoluteAnchors = createIndexMemo(
+    () => anchors,
+    (_, index) => resolveAbsoluteAnchor(anchors, index)
+  )
+
   const lookupMapSegments = createIndexMemo(absoluteAnchors, (point, index) => {
     const next = absoluteAnchors()[index + 1]
     return next
       ? {
           range: [point[0].x, next[0].x],
-          map: createLookupMap(point, next),
+          ...createLookupMap(point, next),
         }
       : undefined
   })
+  const segments = createMemo(
+    () => lookupMapSegments().slice(0, -1) as Array<Segment>
+  )
 
   function d(config?: { zoom?: Partial<Vector>; origin?: Partial<Vector> }) {
     return dFromAbsoluteAnchors(absoluteAnchors(), config)
   }
 
-  function getValue(time: number) {
-    const segments = lookupMapSegments().slice(0, -1) as Array<Segment>
-    return getValueFromSegments(segments, time)
+  function evaluate(time: number, options?: GetValueOptions) {
+    if ((options?.evaluation || config?.evaluation) === 'exact') {
+      return getExactValueFromAbsoluteAnchors(absoluteAnchors(), time)
+    }
+    return getValueFromSegments(segments(), time, options?.hint)
+  }
+
+  /** Maps time outside of the anchors according to the extrapolation, `undefined` when inside. */
+  function extrapolate(time: number) {
+    const absolute = absoluteAnchors()
+    if (absolute.length < 2) return undefined
+    const first = absolute[0][0]
+    const last = absolute[absolute.length - 1][0]
+    if (first.x <= time && time <= last.x) return undefined
+    return {
+      ...mapExtrapolatedTime(time, first, last, extrapolation()),
+      first,
+      last,
+    }
+  }
+
+  function getValue(time: number, options?: GetValueOptions) {
+    const extrapolated = extrapolate(time)
+    if (!extrapolated) {
+      return evaluate(time, options)
+    }
+    if (extrapolated.linear) {
+      const anchor =
+        extrapolated.linear === 'pre' ? extrapolated.first : extrapolated.last
+      return anchor.y + getVelocity(anchor.x) * (time - anchor.x)
+    }
+    return evaluate(extrapolated.time, options) + extrapolated.offset
+  }
+
+  function getVelocity(time: number): number {
+    const extrapolated = extrapolate(time)
+    if (!extrapolated) {
+      return getDerivativesFromAbsoluteAnchors(absoluteAnchors(), time).velocity
+    }
+    if (extrapolated.linear) {
+      const anchor =
+        extrapolated.linear === 'pre' ? extrapolated.first : extrapolated.last
+      return getVelocity(anchor.x)
+    }
+    return getVelocity(extrapolated.time) * extrapolated.direction
+  }
+
+  function getAcceleration(time: number): number {
+    const extrapolated = extrapolate(time)
+    if (!extrapolated) {
+      return getDerivativesFromAbsoluteAnchors(absoluteAnchors(), time)
+        .acceleration
+    }
+    if (extrapolated.linear) return 0
+    return getAcceleration(extrapolated.time)
   }
 
   function addAnchor(time: number, value = getValue(time)) {
-    setAnchors(
-      produce((anchors) => {
-        let index = anchors.findIndex(([anchor]) => {
-          return anchor.x > time
+    let index = anchors.findIndex(([anchor]) => anchor.x > time)
+    if (index === -1) index = anchors.length
+
+    batch(() => {
+      setAnchors(
+        produce((anchors) => {
+          if (anchors.length === 0) {
+            anchors.push([{ x: time, y: value }])
+          } else if (index === anchors.length) {
+            anchors[anchors.length - 1][1] = {
+              ...anchors[anchors.length - 1][1],
+              post: { x: 0.5, y: 0 },
+            }
+            anchors.push([{ x: time, y: value }, { pre: { x: 0.5, y: 0 } }])
+          } else if (index === 0) {
+            anchors[0][1] = {
+              ...anchors[0][1],
+              pre: { x: 0.5, y: 0 },
+            }
+            anchors.unshift([{ x: time, y: value }, { post: { x: 0.5, y: 0 } }])
+          } else {
+            anchors.splice(index, 0, [
+              { x: time, y: value },
+              { pre: { x: 0.5, y: 0 }, post: { x: 0.5, y: 0 } },
+            ])
+          }
         })
-        if (index === -1) {
-          anchors[anchors.length - 1][1] = {
-            ...anchors[anchors.length - 1][1],
-            post: { x: 0.5, y: 0 },
+      )
+      // Shift the selected indices that come after the inserted anchor
+      setSelection((selection) =>
+        selection.map((selected) =>
+          selected >= index ? selected + 1 : selected
+        )
+      )
+    })
+  }
+
+  function deleteAnchors(indices: Array<number>) {
+    const sorted = [...new Set(indices)].sort((a, b) => b - a)
+    batch(() => {
+      setAnchors(
+        produce((anchors) => {
+          sorted.forEach((index) => anchors.splice(index, 1))
+          // The outer anchors can not have controls pointing outside of the curve
+          const first = anchors[0]
+          if (first?.[1]?.pre) {
+            first[1] = { ...first[1], pre: undefined }
           }
-          anchors.push([{ x: time, y: value }, { pre: { x: 0.5, y: 0 } }])
-        } else if (index === 0) {
-          anchors[0][1] = {
-            ...anchors[0][1],
-            pre: { x: 0.5, y: 0 },
+          const last = anchors[anchors.length - 1]
+          if (last?.[1]?.post) {
+            last[1] = { ...last[1], post: undefined }
           }
-          anchors.unshift([{ x: time, y: value }, { post: { x: 0.5, y: 0 } }])
-        } else {
-          anchors.splice(index, 0, [
-            { x: time, y: value },
-            { pre: { x: 0.5, y: 0 }, post: { x: 0.5, y: 0 } },
-          ])
-        }
-      })
-    )
+        })
+      )
+      setSelection((selection) =>
+        selection
+          .filter((selected) => !sorted.includes(selected))
+          .map(
+            (selected) =>
+              selected - sorted.filter((index) => index < selected).length
+          )
+      )
+    })
   }
 
   function deleteAnchor(index: number) {
-    setAnchors(produce((anchors) => anchors.splice(index, 1)))
+    deleteAnchors([index])
+  }
+
+  /**********************************************************************************/
+  /*                                                                                */
+  /*                                    Selection                                   */
+  /*                                                                                */
+  /**********************************************************************************/
+
+  function isSelected(index: number) {
+    return selection().includes(index)
+  }
+
+  function select(
+    indices: number | Array<number>,
+    mode: SelectionMode = 'replace'
+  ) {
+    const _indices = Array.isArray(indices) ? indices : [indices]
+    setSelection((selection) => {
+      switch (mode) {
+        case 'replace':
+          return [...new Set(_indices)].sort((a, b) => a - b)
+        case 'add':
+          return [...new Set([...selection, ..._indices])].sort((a, b) => a - b)
+        case 'toggle':
+          return [
+            ...selection.filter((index) => !_indices.includes(index)),
+            ..._indices.filter((index) => !selection.includes(index)),
+          ].sort((a, b) => a - b)
+      }
+    })
+  }
+
+  function clearSelection() {
+    setSelection([])
+  }
+
+  /**
+   * Moves all selected anchors with the same delta.
+   * The x-component of the delta is clamped so that the selection as a whole
+   * never crosses its unselected neighbours, ensuring monotonicity of the curve.
+   * @param delta offset applied to the positions
+   * @param initialPositions positions to offset from, defaults to the current positions
+   */
+  function moveSelection(
+    delta: Vector,
+    initialPositions = selection().map((index) => ({ ...anchors[index][0] }))
+  ) {
+    const indices = selection()
+    const x = clampSelectionDelta(initialPositions, indices, delta.x)
+    history.transaction(() =>
+      batch(() =>
+        indices.forEach((index, i) =>
+          setAnchors(index, 0, {
+            x: initialPositions[i].x + x,
+            y: initialPositions[i].y + delta.y,
+          })
+        )
+      )
+    )
+  }
+
+  function clampSelectionDelta(
+    positions: Array<Vector>,
+    indices: Array<number>,
+    deltaX: number
+  ) {
+    let min = -Infinity
+    let max = Infinity
+    indices.forEach((index, i) => {
+      const pre = anchors[index - 1]
+      if (pre && !indices.includes(index - 1)) {
+        min = Math.max(min, pre[0].x + 1 - positions[i].x)
+      }
+      const post = anchors[index + 1]
+      if (post && !indices.includes(index + 1)) {
+        max = Math.min(max, post[0].x - 1 - positions[i].x)
+      }
+    })
+    return Math.max(min, Math.min(max, deltaX))
+  }
+
+  function deleteSelection() {
+    deleteAnchors(selection())
+  }
+
+  /**********************************************************************************/
+  /*                                                                                */
+  /*                                    Clipboard                                   */
+  /*                                                                                */
+  /**********************************************************************************/
+
+  function copy(indices = selection()) {
+    return copyAnchors(anchors, indices)
+  }
+
+  function cut(indices = selection()) {
+    const copied = copy(indices)
+    deleteAnchors(indices)
+    return copied
+  }
+
+  function paste(
+    copied: Anchors,
+    time: number,
+    options?: { mode?: PasteMode }
+  ) {
+    if (copied.length === 0) return
+
+    const start = copied[0][0].x
+    const end = time + copied[copied.length - 1][0].x - start
+    const offset =
+      options?.mode === 'relative' ? getValue(time) - copied[0][0].y : 0
+
+    const pasted: Anchors = copied.map(([position, controls]) => {
+      const anchor: Anchor = [
+        { x: time + position.x - start, y: position.y + offset },
+      ]
+      if (controls) anchor[1] = { ...controls }
+      return anchor
+    })
+    const before = anchors.filter(([position]) => position.x < time)
+    const after = anchors.filter(([position]) => position.x > end)
+
+    const result: Anchors = JSON.parse(
+      JSON.stringify([...before, ...pasted, ...after])
+    )
+
+    // The outer anchors can not have controls pointing outside of the curve
+    const first = result[0]
+    if (first[1]?.pre) first[1] = { ...first[1], pre: undefined }
+    const last = result[result.length - 1]
+    if (last[1]?.post) last[1] = { ...last[1], post: undefined }
+
+    batch(() => {
+      setAnchors(reconcile(result))
+      setSelection(pasted.map((_, index) => before.length + index))
+    })
+  }
+
+  function setTangentMode(mode: TangentMode, indices = selection()) {
+    history.transaction(() =>
+      batch(() =>
+        indices.forEach((index) => {
+          // Store the currently resolved controls, so the curve does not jump when switching modes
+          const { pre, post } = resolveRelativeControls(anchors, index)
+          setAnchors(index, 1, { pre, post, mode })
+        })
+      )
+    )
+  }
+
+  function setInterpolation(
+    interpolation: Interpolation,
+    indices = selection()
+  ) {
+    history.transaction(() =>
+      batch(() =>
+        indices
+          // The last anchor does not start a segment
+          .filter((index) => index < anchors.length - 1)
+          .forEach((index) => setAnchors(index, 1, { interpolation }))
+      )
+    )
+  }
+
+  function applyEasing(
+    preset: EasingPresetName | string | EasingPreset,
+    indices = selection()
+  ) {
+    const result = applyEasingToAnchors(
+      JSON.parse(JSON.stringify(anchors)),
+      indices,
+      getEasingPreset(preset)
+    )
+    batch(() => {
+      setAnchors(reconcile(result.anchors))
+      setSelection((selection) =>
+        selection.map((index) => result.indexMap[index])
+      )
+    })
+  }
+
+  function retime(convert: (times: Array<number>) => Array<number>) {
+    const times = convert(anchors.map(([position]) => position.x))
+    setAnchors(
+      produce((anchors) =>
+        anchors.forEach(([position], index) => (position.x = times[index]))
+      )
+    )
   }
 
   const api: Api = {
@@ -118,7 +515,31 @@ export function createTimeline(config?: { initial?: Anchors }) {
     d,
     deleteAnchor,
     getValue,
+    getVelocity,
+    getAcceleration,
+    extrapolation,
+    setExtrapolation: (value) =>
+      setExtrapolation((extrapolation) => ({ ...extrapolation, ...value })),
     setAnchors,
+    selection,
+    isSelected,
+    select,
+    clearSelection,
+    moveSelection,
+    deleteSelection,
+    copy,
+    cut,
+    paste,
+    setTangentMode,
+    setInterpolation,
+    applyEasing,
+    retime,
+    history,
+    serialize: () => serializeAnchors(anchors),
+    keyframes: (property, config) =>
+      keyframesFromAbsoluteAnchors(absoluteAnchors(), property, config),
+    animate: (element, property, options) =>
+      animateAbsoluteAnchors(element, absoluteAnchors(), property, options),
   }
 
   return {
@@ -7,6 +7,7 @@ import {
   useContext,
 } from 'solid-js'
 import { Api } from './create-timeline'
+import { createLookupHint } from './lib/get-value-from-segments'
 import { useSheet } from './sheet'
 import { createWritable } from './utils/create-writable'
 
@@ -25,7 +26,9 @@ const useValue = () => {
 export function createValueComponent({ addAnchor, getValue }: Api) {
   function Value(props: ParentProps) {
     const { time } = useSheet()
-    const [value, setValue] = createWritable(() => getValue(time()))
+    // Follows the time of the sheet, which mostly moves forward
+    const hint = createLookupHint()
+    const [value, setValue] = createWritable(() => getValue(time(), { hint }))
 
     return (
       <ValueContext.Provider value={{ value, setValue }}>
@@ -35,13 +38,13 @@ export function createValueComponent({ addAnchor, getValue }: Api) {
   }
 
   Value.Button = function (props: Omit<ComponentProps<'button'>, 'click'>) {
-    const { time } = useSheet()
+    const { time, snapToFrame } = useSheet()
     const { value } = useValue()
 
     return (
       <button
         onClick={() => {
-          addAnchor(time(), value())
+          addAnchor(snapToFrame(time()), value())
         }}
         {...props}
       />
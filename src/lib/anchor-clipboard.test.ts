@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { Anchors } from '#/types'
+import {
+  ANCHORS_MIME_TYPE,
+  copyAnchors,
+  readAnchorsFromClipboard,
+  writeAnchorsToClipboard,
+} from './anchor-clipboard'
+
+/** The part of `DataTransfer` used by the clipboard helpers. */
+function createDataTransfer(data: Record<string, string> = {}) {
+  const entries = new Map(Object.entries(data))
+  const transfer: Pick<DataTransfer, 'getData' | 'setData'> = {
+    getData: (format) => entries.get(format) ?? '',
+    setData: (format, value) => {
+      entries.set(format, value)
+    },
+  }
+  return { entries, transfer: transfer as DataTransfer }
+}
+
+const anchors: Anchors = [
+  [{ x: 0, y: 0 }, { post: { x: 0.5, y: 1 } }],
+  [
+    { x: 10, y: 5 },
+    { pre: { x: 0.5, y: -1 }, post: { x: 0.5, y: 2 }, mode: 'aligned' },
+  ],
+  [
+    { x: 20, y: 10 },
+    { pre: { x: 0.5, y: -2 }, post: { x: 0.5, y: 0 } },
+  ],
+  [{ x: 30, y: 0 }, { pre: { x: 0.5, y: 0 } }],
+]
+
+describe('copyAnchors', () => {
+  it('copies anchors with times relative to the first copied anchor', () => {
+    expect(copyAnchors(anchors, [1, 2])).toEqual([
+      [
+        { x: 0, y: 5 },
+        { post: { x: 0.5, y: 2 }, mode: 'aligned' },
+      ],
+      [{ x: 10, y: 10 }, { pre: { x: 0.5, y: -2 } }],
+    ])
+  })
+
+  it('drops controls pointing outside of the copied anchors', () => {
+    expect(copyAnchors(anchors, [2])).toEqual([[{ x: 0, y: 10 }]])
+  })
+
+  it('de-duplicates and sorts the indices, ignoring missing anchors', () => {
+    expect(copyAnchors(anchors, [3, 2, 3, 9])).toEqual(
+      copyAnchors(anchors, [2, 3])
+    )
+    expect(copyAnchors(anchors, [9])).toEqual([])
+  })
+})
+
+describe('readAnchorsFromClipboard', () => {
+  const copied = copyAnchors(anchors, [1, 2])
+
+  it('reads the anchors written to the clipboard', () => {
+    const { transfer, entries } = createDataTransfer()
+    writeAnchorsToClipboard(transfer, copied)
+    expect(entries.get('text/plain')).toBe(entries.get(ANCHORS_MIME_TYPE))
+    expect(readAnchorsFromClipboard(transfer)).toEqual(copied)
+  })
+
+  it('prefers the anchors MIME type over plain text', () => {
+    const { transfer } = createDataTransfer({
+      [ANCHORS_MIME_TYPE]: JSON.stringify({ version: 1, anchors: copied }),
+      'text/plain': 'some text',
+    })
+    expect(readAnchorsFromClipboard(transfer)).toEqual(copied)
+  })
+
+  it('falls back to plain text', () => {
+    const { transfer } = createDataTransfer({
+      'text/plain': JSON.stringify({ version: 1, anchors: copied }),
+    })
+    expect(readAnchorsFromClipboard(transfer)).toEqual(copied)
+  })
+
+  it('returns undefined without anchors', () => {
+    expect(readAnchorsFromClipboard(createDataTransfer().transfer)).toBe(
+      undefined
+    )
+    expect(
+      readAnchorsFromClipboard(
+        createDataTransfer({ 'text/plain': '{ not json' }).transfer
+      )
+    ).toBe(undefined)
+    expect(
+      readAnchorsFromClipboard(
+        createDataTransfer({ 'text/plain': '{"version":1,"anchors":[]}' })
+          .transfer
+      )
+    ).toBe(undefined)
+  })
+})
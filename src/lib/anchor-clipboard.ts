@@ -0,0 +1,64 @@
+import { Anchors, Controls } from '#/types'
+import { deserializeAnchors, serializeAnchors } from './serialize-anchors'
+
+/**
+ * MIME type of anchors on the clipboard.
+ * The payload is the JSON of `SerializedAnchors`, with times relative to the first copied anchor:
+ * `{ "version": 1, "anchors": [[{ "x": 0, "y": 10 }, { "post": { "x": 0.5, "y": 0 } }], ...] }`
+ * The same JSON is written as `text/plain`, which is read as fallback when pasting.
+ */
+export const ANCHORS_MIME_TYPE = 'application/x-solid-timeline-anchors+json'
+
+/**
+ * How the values of pasted anchors are placed:
+ * - `absolute`: anchors keep their copied values
+ * - `relative`: values are offset so the first anchor continues from the value at the paste time
+ */
+export type PasteMode = 'absolute' | 'relative'
+
+/**
+ * Copies the anchors at `indices`, with times relative to the first copied anchor.
+ * The controls pointing outside of the copied anchors are dropped.
+ */
+export function copyAnchors(anchors: Anchors, indices: Array<number>): Anchors {
+  const sorted = [...new Set(indices)]
+    .filter((index) => anchors[index])
+    .sort((a, b) => a - b)
+  if (sorted.length === 0) return []
+
+  const start = anchors[sorted[0]][0].x
+
+  return sorted.map((index, i) => {
+    const [position, controls] = anchors[index]
+    // Anchors can be proxies of a store, which can not be cloned with structuredClone
+    const copy: Controls | undefined =
+      controls && JSON.parse(JSON.stringify(controls))
+    if (copy && i === 0) delete copy.pre
+    if (copy && i === sorted.length - 1) delete copy.post
+    return copy && Object.keys(copy).length > 0
+      ? [{ x: position.x - start, y: position.y }, copy]
+      : [{ x: position.x - start, y: position.y }]
+  })
+}
+
+export function writeAnchorsToClipboard(data: DataTransfer, anchors: Anchors) {
+  const serialized = serializeAnchors(anchors)
+  data.setData(ANCHORS_MIME_TYPE, serialized)
+  data.setData('text/plain', serialized)
+}
+
+/**
+ * Reads anchors from the clipboard, falling back to plain text.
+ * @returns `undefined` when the clipboard does not contain anchors
+ */
+export function readAnchorsFromClipboard(data: DataTransfer) {
+  const serialized =
+    data.getData(ANCHORS_MIME_TYPE) || data.getData('text/plain')
+  if (!serialized) return undefined
+  try {
+    const anchors = deserializeAnchors(serialized, { normalize: true })
+    return anchors.length > 0 ? anchors : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ClipTiming,
+  getClipEnd,
+  getClipLoopDuration,
+  mapClipTime,
+} from './clip-time'
+
+const clip = (timing: Partial<ClipTiming>): ClipTiming => ({
+  start: 0,
+  rate: 1,
+  in: 0,
+  out: 10,
+  loops: 1,
+  ...timing,
+})
+
+describe('mapClipTime', () => {
+  it('offsets the time by the start of the clip', () => {
+    const timing = clip({ start: 100 })
+    expect(mapClipTime(timing, 105).time).toBe(5)
+    // Outside of the clip the local time holds
+    expect(mapClipTime(timing, 50).time).toBe(0)
+    expect(mapClipTime(timing, 200).time).toBe(10)
+  })
+
+  it('scales the time by the rate', () => {
+    const timing = clip({ rate: 2 })
+    expect(mapClipTime(timing, 2.5).time).toBe(5)
+    expect(getClipEnd(timing)).toBe(5)
+  })
+
+  it('plays negative rates backwards', () => {
+    const timing = clip({ rate: -1 })
+    expect(mapClipTime(timing, 0).time).toBe(10)
+    expect(mapClipTime(timing, 7).time).toBe(3)
+    expect(mapClipTime(timing, 20).time).toBe(0)
+  })
+
+  it('trims the clip to its in and out', () => {
+    const timing = clip({ in: 20, out: 30 })
+    expect(mapClipTime(timing, 0).time).toBe(20)
+    expect(mapClipTime(timing, 4).time).toBe(24)
+    expect(mapClipTime(timing, 15).time).toBe(30)
+    expect(getClipLoopDuration(timing)).toBe(10)
+  })
+
+  it('loops the trimmed range', () => {
+    const timing = clip({ in: 20, out: 30, loops: 3 })
+    expect(mapClipTime(timing, 14).time).toBe(24)
+    expect(mapClipTime(timing, 25).time).toBe(25)
+    // The last loop holds its end
+    expect(mapClipTime(timing, 30).time).toBe(30)
+    expect(mapClipTime(timing, 40).time).toBe(30)
+    expect(getClipEnd(timing)).toBe(30)
+  })
+
+  it('loops forever with 0 loops', () => {
+    const timing = clip({ loops: 0 })
+    expect(mapClipTime(timing, 1234).time).toBe(4)
+    expect(mapClipTime(timing, 1234).active).toBe(true)
+    expect(getClipEnd(timing)).toBe(Infinity)
+  })
+
+  it('is active between the start and the end of the clip', () => {
+    const timing = clip({ start: 10, rate: 2 })
+    expect(mapClipTime(timing, 9.9).active).toBe(false)
+    expect(mapClipTime(timing, 10).active).toBe(true)
+    expect(mapClipTime(timing, 15).active).toBe(true)
+    expect(mapClipTime(timing, 15.1).active).toBe(false)
+  })
+})
@@ -0,0 +1,47 @@
+/**
+ * Placement of a clip in the time of its parent.
+ */
+export type ClipTiming = {
+  /** Time in the parent at which the clip starts. */
+  start: number
+  /** Playback rate, negative rates play the clip backwards. */
+  rate: number
+  /** Local time at which the clip starts playing. */
+  in: number
+  /** Local time at which the clip stops playing. */
+  out: number
+  /** Amount of times the trimmed range is played, 0 loops forever. */
+  loops: number
+}
+
+/** Time in the parent at which the clip ends, `Infinity` for endless clips. */
+export function getClipEnd(clip: ClipTiming) {
+  const rate = Math.abs(clip.rate)
+  if (clip.loops <= 0 || rate === 0) return Infinity
+  return clip.start + ((clip.out - clip.in) * clip.loops) / rate
+}
+
+/** Duration in the parent of a single loop of the clip. */
+export function getClipLoopDuration(clip: ClipTiming) {
+  return (clip.out - clip.in) / Math.abs(clip.rate)
+}
+
+/**
+ * Maps time of the parent to the local time of the clip.
+ * Outside of the clip the local time holds at the start or the end of the clip.
+ */
+export function mapClipTime(clip: ClipTiming, time: number) {
+  const length = clip.out - clip.in
+  const total = clip.loops > 0 ? length * clip.loops : Infinity
+  const elapsed = Math.max(
+    0,
+    Math.min(total, (time - clip.start) * Math.abs(clip.rate))
+  )
+
+  const local = length <= 0 ? 0 : elapsed === total ? length : elapsed % length
+
+  return {
+    time: clip.rate < 0 ? clip.out - local : clip.in + local,
+    active: time >= clip.start && time <= getClipEnd(clip),
+  }
+}
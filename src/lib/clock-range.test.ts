@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { applyClockRange } from './clock-range'
+
+describe('applyClockRange', () => {
+  it('wraps around with loop', () => {
+    expect(applyClockRange(9, 12, { min: 0, max: 10, loop: 'loop' })).toEqual({
+      time: 2,
+      reversed: false,
+      ended: false,
+      legs: [
+        { from: 9, to: 10, direction: 1 },
+        { from: 0, to: 2, direction: 1 },
+      ],
+    })
+    expect(
+      applyClockRange(1, -3, { min: 0, max: 10, loop: 'loop' }).legs
+    ).toEqual([
+      { from: 1, to: 0, direction: -1 },
+      { from: 10, to: 7, direction: -1 },
+    ])
+  })
+
+  it('bounces off the ends with ping-pong', () => {
+    expect(
+      applyClockRange(9, 12, { min: 0, max: 10, loop: 'ping-pong' })
+    ).toEqual({
+      time: 8,
+      reversed: true,
+      ended: false,
+      legs: [
+        { from: 9, to: 10, direction: 1 },
+        { from: 10, to: 8, direction: -1 },
+      ],
+    })
+  })
+
+  it('reports a bounce that returns to the same time', () => {
+    const result = applyClockRange(8, 12, {
+      min: 0,
+      max: 10,
+      loop: 'ping-pong',
+    })
+    expect(result.time).toBe(8)
+    expect(result.legs).toHaveLength(2)
+  })
+
+  it('reports full cycles of a long change at most twice', () => {
+    const { time, legs } = applyClockRange(5, 105, {
+      min: 0,
+      max: 10,
+      loop: 'ping-pong',
+    })
+    expect(time).toBe(5)
+    expect(legs).toHaveLength(3)
+    legs.slice(1).forEach((leg, index) => {
+      expect(leg.from).toBe(legs[index].to)
+    })
+  })
+
+  it('ends with once', () => {
+    expect(applyClockRange(9, 12, { min: 0, max: 10, loop: 'once' })).toEqual(
+      expect.objectContaining({
+        time: 10,
+        ended: true,
+        legs: [{ from: 9, to: 10, direction: 1 }],
+      })
+    )
+    expect(applyClockRange(4, 5, { min: 0, max: 10, loop: 'once' }).ended).toBe(
+      false
+    )
+  })
+
+  it('is unbounded without a max', () => {
+    expect(applyClockRange(999, 1000, { min: 0, loop: 'loop' }).time).toBe(1000)
+  })
+})
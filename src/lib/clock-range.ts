@@ -0,0 +1,119 @@
+/**
+ * What a clock does when its time leaves the in/out range:
+ * - `loop`: wraps around to the other end of the range
+ * - `ping-pong`: bounces off the end of the range, reversing the direction of playback
+ * - `once`: stops at the end of the range
+ */
+export type ClockLoop = 'loop' | 'ping-pong' | 'once'
+
+export type ClockRange = {
+  /** In point of the range. */
+  min: number
+  /** Out point of the range, the range is unbounded when undefined. */
+  max?: number
+  loop: ClockLoop
+}
+
+const modulo = (value: number, divisor: number) =>
+  ((value % divisor) + divisor) % divisor
+
+/**
+ * A straight movement of the time, from `from` to `to`.
+ * `direction` is explicit, since a leg can have no length.
+ */
+export type ClockLeg = {
+  from: number
+  to: number
+  direction: 1 | -1
+}
+
+/**
+ * Legs travelled from `from` to `to` in a range that wraps around (`loop`) or bounces (`ping-pong`).
+ * The movement is unfolded into cycles of the length of the range, each cycle is a leg.
+ * When a single change travels many cycles, p.ex after a long frame, the full cycles in between are
+ * reported at most twice.
+ */
+function getLegs(
+  from: number,
+  to: number,
+  min: number,
+  max: number,
+  loop: ClockLoop
+) {
+  const length = max - min
+  const direction = to >= from ? 1 : -1
+  const cycle = (value: number) => Math.floor((value - min) / length)
+  const isReflected = (k: number) => loop === 'ping-pong' && modulo(k, 2) === 1
+  const fold = (value: number, k: number) => {
+    const local = value - min - k * length
+    return isReflected(k) ? max - local : min + local
+  }
+
+  const first = cycle(from)
+  const last = cycle(to)
+  const legs: Array<ClockLeg> = []
+
+  let k = first
+  while (true) {
+    const start =
+      k === first ? from : min + (direction === 1 ? k : k + 1) * length
+    const end = k === last ? to : min + (direction === 1 ? k + 1 : k) * length
+    legs.push({
+      from: fold(start, k),
+      to: fold(end, k),
+      direction: isReflected(k) ? (-direction as 1 | -1) : direction,
+    })
+    if (k === last) break
+    k += direction
+    // Skips an even amount of full cycles, so a bounce keeps its direction
+    const full = Math.abs(last - k)
+    if (full > 2) k += 2 * Math.floor((full - 1) / 2) * direction
+  }
+
+  // A time at the boundary of a cycle starts with a leg without length
+  if (legs.length > 1 && legs[0].from === legs[0].to) legs.shift()
+
+  return legs
+}
+
+/**
+ * Brings a time that moved from `from` to `to` back inside of the range.
+ * @returns the time inside of the range, whether playback reversed (`ping-pong`), whether it ended (`once`)
+ * and the legs travelled, which are split where the time wraps around or bounces
+ */
+export function applyClockRange(
+  from: number,
+  to: number,
+  { min, max, loop }: ClockRange
+) {
+  const direction = to >= from ? 1 : -1
+  const result = {
+    time: to,
+    reversed: false,
+    ended: false,
+    legs: [{ from, to, direction }] as Array<ClockLeg>,
+  }
+
+  if (max === undefined || max <= min) return result
+
+  switch (loop) {
+    case 'loop':
+    case 'ping-pong': {
+      result.legs = getLegs(from, to, min, max, loop)
+      result.time = result.legs[result.legs.length - 1].to
+      result.reversed =
+        loop === 'ping-pong' &&
+        modulo(Math.floor((to - min) / (max - min)), 2) === 1
+      break
+    }
+    case 'once':
+      if ((direction > 0 && to >= max) || (direction < 0 && to <= min)) {
+        result.ended = true
+      }
+      result.time = Math.max(min, Math.min(max, to))
+      result.legs = [{ from, to: result.time, direction }]
+      break
+  }
+
+  return result
+}
@@ -1,86 +1,98 @@
-import {
-  Anchor,
-  PostPoint,
-  PrePoint,
-  QuadraticBezierPoint,
-  Vector,
-} from '#/types'
+import { Anchor, Interpolation } from '#/types'
+import { bezier, cubicControlPoints } from './solve-bezier'
 
-const isPrePoint = (point: Anchor): point is PrePoint => !!point[1]?.pre
-const isPostPoint = (point: Anchor): point is PostPoint => !!point[1]?.post
+export const INTERPOLATIONS: Array<Interpolation> = ['bezier', 'linear', 'step']
 
-export function createLookupMap(start: Anchor, end: Anchor, amount = 30) {
-  if (isPostPoint(start) && isPrePoint(end)) {
-    return createCubicLookupMap(start, end, amount)
-  } else if (!isPostPoint(start) && !isPrePoint(end)) {
-    return createLinearLookupMap(start, end, amount)
-  } else {
-    return createQuadraticLookupMap(
-      start as QuadraticBezierPoint,
-      end as QuadraticBezierPoint,
-      amount
-    )
-  }
+/** Samples of a segment, stored as typed arrays to keep evaluation cache-friendly. */
+export type LookupMap = {
+  xs: Float64Array
+  ys: Float64Array
 }
 
-export const createCubicLookupMap = (
-  [start, { post }]: PostPoint,
-  [end, { pre }]: PrePoint,
-  amount = 60
-): Array<Vector> => {
-  const step = (type: 'x' | 'y', t: number) =>
-    Math.pow(1 - t, 3) * start[type] +
-    3 * Math.pow(1 - t, 2) * t * post[type] +
-    3 * (1 - t) * Math.pow(t, 2) * pre[type] +
-    Math.pow(t, 3) * end[type]
+/**
+ * Default maximum distance between the sampled polyline and the curve, in units of both time and value.
+ * This is not the error in value at a given time, which grows with the slope of the segment.
+ */
+export const LOOKUP_TOLERANCE = 0.05
+const MIN_SAMPLES = 4
+const MAX_SAMPLES = 512
 
-  const res = []
+/**
+ * Amount of samples needed for the polyline of a cubic segment to stay within distance `tolerance` of the curve.
+ * The chord error of a cubic with control points P0-P3 sampled n times is bound by
+ * `0.75 / n² * max(|P0 - 2P1 + P2|, |P1 - 2P2 + P3|)`.
+ */
+export function getAdaptiveSampleAmount(
+  start: Anchor,
+  end: Anchor,
+  tolerance = LOOKUP_TOLERANCE
+) {
+  const [p0, p1, p2, p3] = cubicControlPoints(start, end)
+  const curvature = Math.max(
+    Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y),
+    Math.hypot(p1.x - 2 * p2.x + p3.x, p1.y - 2 * p2.y + p3.y)
+  )
+  const amount = Math.ceil(Math.sqrt((0.75 * curvature) / tolerance))
+  return Math.max(MIN_SAMPLES, Math.min(MAX_SAMPLES, amount))
+}
 
-  for (let t = 0; t <= amount; t++) {
-    const valX = step('x', t / amount)
-    const valY = step('y', t / amount)
-    res.push({ x: valX, y: valY })
+/**
+ * Samples a segment into a polyline.
+ * @param amount amount of samples, defaults to an amount adapted to the curvature of the segment
+ */
+export function createLookupMap(
+  start: Anchor,
+  end: Anchor,
+  amount?: number
+): LookupMap {
+  const interpolation = start[1]?.interpolation
+  if (interpolation === 'step') {
+    return createStepLookupMap(start, end)
+  } else if (interpolation === 'linear' || (!start[1]?.post && !end[1]?.pre)) {
+    return createLinearLookupMap(start, end)
+  } else {
+    return createCubicLookupMap(
+      start,
+      end,
+      amount ?? getAdaptiveSampleAmount(start, end)
+    )
   }
-
-  return res
 }
 
-const createLinearLookupMap = (
-  [start]: Anchor,
-  [end]: Anchor,
+/**
+ * Samples a cubic segment. Quadratic segments are elevated to cubic ones, which describe the same curve.
+ */
+export const createCubicLookupMap = (
+  start: Anchor,
+  end: Anchor,
   amount = 60
-): Array<Vector> => {
-  const step = (type: 'x' | 'y', t: number) =>
-    (1 - t) * start[type] + t * end[type]
+): LookupMap => {
+  const [p0, p1, p2, p3] = cubicControlPoints(start, end)
 
-  const res = []
+  const xs = new Float64Array(amount + 1)
+  const ys = new Float64Array(amount + 1)
 
-  for (let t = 0; t <= amount; t++) {
-    const valX = step('x', t / amount)
-    const valY = step('y', t / amount)
-    res.push({ x: valX, y: valY })
+  for (let i = 0; i <= amount; i++) {
+    const t = i / amount
+    xs[i] = bezier(p0.x, p1.x, p2.x, p3.x, t)
+    ys[i] = bezier(p0.y, p1.y, p2.y, p3.y, t)
   }
 
-  return res
+  return { xs, ys }
 }
 
-const createQuadraticLookupMap = (
-  [start, { post }]: QuadraticBezierPoint,
-  [end, { pre }]: QuadraticBezierPoint,
-  amount = 60
-): Array<Vector> => {
-  const step = (type: 'x' | 'y', t: number) =>
-    Math.pow(1 - t, 2) * start[type] +
-    2 * (1 - t) * t * (post ? post[type] : pre![type]) + // Use post if available, otherwise pre
-    Math.pow(t, 2) * end[type]
-
-  const res = []
+/**
+ * A straight line is described exactly by its two end points.
+ */
+const createLinearLookupMap = ([start]: Anchor, [end]: Anchor): LookupMap => ({
+  xs: Float64Array.of(start.x, end.x),
+  ys: Float64Array.of(start.y, end.y),
+})
 
-  for (let t = 0; t <= amount; t++) {
-    const valX = step('x', t / amount)
-    const valY = step('y', t / amount)
-    res.push({ x: valX, y: valY })
-  }
-
-  return res
-}
+/**
+ * Holds the start value for the whole segment and jumps to the end value at its end.
+ */
+const createStepLookupMap = ([start]: Anchor, [end]: Anchor): LookupMap => ({
+  xs: Float64Array.of(start.x, end.x, end.x),
+  ys: Float64Array.of(start.y, start.y, end.y),
+})
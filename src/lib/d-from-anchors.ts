@@ -4,8 +4,6 @@ export function dFromAbsoluteAnchors(
   absoluteAnchors: Array<Anchor>,
   config?: { zoom?: Partial<Vector>; origin?: Partial<Vector> }
 ) {
-  let d = ''
-
   const zoom = {
     x: 1,
     y: 1,
@@ -18,47 +16,31 @@ export function dFromAbsoluteAnchors(
     ...config?.origin,
   }
 
-  let currentCommand = ''
+  const project = (point: Vector) =>
+    `${(point.x + origin.x) * zoom.x} ${(point.y + origin.y) * zoom.y}`
 
-  absoluteAnchors.forEach(([point, { pre, post } = {}], index, array) => {
-    let next = array[index + 1]
+  let d = ''
 
-    let segment = ''
-    if (pre) {
-      segment += (pre.x + origin.x) * zoom.x
-      segment += ' '
-      segment += (pre.y + origin.y) * zoom.y
-      segment += ' '
+  absoluteAnchors.forEach(([point, { post, interpolation } = {}], index) => {
+    if (index === 0) {
+      d += `M ${project(point)} `
     }
-    if (d === '') {
-      currentCommand = 'M'
-      segment += currentCommand
-      segment += ' '
-    }
-    segment += (point.x + origin.x) * zoom.x
-    segment += ' '
-    segment += (point.y + origin.y) * zoom.y
-    segment += ' '
 
-    if (index !== array.length - 1) {
-      let command =
-        !next![1]?.pre && !post ? 'L' : next![1]?.pre && post ? 'C' : 'Q'
+    const next = absoluteAnchors[index + 1]
+    if (!next) return
 
-      if (command !== currentCommand) {
-        currentCommand = command
-        segment += currentCommand
-        segment += ' '
-      }
+    const [nextPoint, { pre } = {}] = next
 
-      if (post) {
-        segment += (post.x + origin.x) * zoom.x
-        segment += ' '
-        segment += (post.y + origin.y) * zoom.y
-        segment += ' '
-      }
+    if (interpolation === 'step') {
+      d += `L ${project({ x: nextPoint.x, y: point.y })} `
+      d += `L ${project(nextPoint)} `
+    } else if (interpolation === 'linear' || (!post && !pre)) {
+      d += `L ${project(nextPoint)} `
+    } else if (post && pre) {
+      d += `C ${project(post)} ${project(pre)} ${project(nextPoint)} `
+    } else {
+      d += `Q ${project((post || pre)!)} ${project(nextPoint)} `
     }
-
-    d += segment
   })
 
   return d
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { Anchors } from '#/types'
+import {
+  applyEasingToAnchors,
+  EASING_PRESETS,
+  getEasingPreset,
+} from './easing-presets'
+
+const anchors: Anchors = [
+  [{ x: 0, y: 0 }],
+  [{ x: 100, y: 10 }],
+  [{ x: 200, y: 0 }],
+]
+
+describe('getEasingPreset', () => {
+  it('resolves named presets and custom cubic-bezier strings', () => {
+    expect(getEasingPreset('ease-in')).toBe(EASING_PRESETS['ease-in'])
+    expect(getEasingPreset('cubic-bezier(0.1, -0.5, 0.9, 1.5)')).toEqual({
+      type: 'cubic-bezier',
+      value: [0.1, -0.5, 0.9, 1.5],
+    })
+  })
+
+  it('throws on unknown presets and invalid cubic-beziers', () => {
+    expect(() => getEasingPreset('wobble')).toThrow(/Unknown easing preset/)
+    expect(() => getEasingPreset('cubic-bezier(2, 0, 1, 1)')).toThrow(
+      /Invalid easing/
+    )
+  })
+})
+
+describe('applyEasingToAnchors', () => {
+  it('converts a cubic-bezier into relative controls', () => {
+    const { anchors: result, indexMap } = applyEasingToAnchors(
+      anchors,
+      [0],
+      getEasingPreset('cubic-bezier(0.25, 0.1, 0.75, 0.9)')
+    )
+    expect(indexMap).toEqual([0, 1, 2])
+    expect(result[0][1]?.post).toEqual({ x: 0.25, y: 1 })
+    expect(result[1][1]?.pre?.x).toBeCloseTo(0.25)
+    expect(result[1][1]?.pre?.y).toBeCloseTo(-1)
+    expect(result[2]).toBe(anchors[2])
+  })
+
+  it('inserts anchors at the breakpoints of function presets', () => {
+    const { anchors: result, indexMap } = applyEasingToAnchors(
+      anchors,
+      [0],
+      EASING_PRESETS.easeOutBounce
+    )
+    expect(indexMap).toEqual([0, 4, 5])
+    expect(result).toHaveLength(6)
+    expect(result.slice(1, 4).map(([{ x }]) => x)).toEqual(
+      [1 / 2.75, 2 / 2.75, 2.5 / 2.75].map((t) => t * 100)
+    )
+    expect(result[4][0]).toEqual({ x: 100, y: 10 })
+  })
+})
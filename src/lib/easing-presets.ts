@@ -0,0 +1,282 @@
+import { Anchor, Anchors } from '#/types'
+import { resolveRelativeControls } from './tangent-mode'
+
+export type CubicBezier = [x1: number, y1: number, x2: number, y2: number]
+
+export type EasingPreset =
+  | { type: 'cubic-bezier'; value: CubicBezier }
+  | {
+      type: 'function'
+      /** Easing function mapping progress [0-1] to progress. */
+      easing(t: number): number
+      /**
+       * Progress at which extra anchors are inserted. Should include the points
+       * where the easing is not smooth, p.ex the impacts of a bounce.
+       */
+      breakpoints: Array<number>
+    }
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Presets                                    */
+/*                                                                                */
+/**********************************************************************************/
+
+const easeOutBounce = (t: number) => {
+  const n1 = 7.5625
+  const d1 = 2.75
+  if (t < 1 / d1) return n1 * t * t
+  if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75
+  if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375
+  return n1 * (t -= 2.625 / d1) * t + 0.984375
+}
+const bounceBreakpoints = [1 / 2.75, 2 / 2.75, 2.5 / 2.75]
+
+const easeOutElastic = (t: number) =>
+  t === 0 || t === 1
+    ? t
+    : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ((2 * Math.PI) / 3)) + 1
+const easeInElastic = (t: number) => 1 - easeOutElastic(1 - t)
+const easeInOutElastic = (t: number) =>
+  t < 0.5
+    ? (1 - easeOutElastic(1 - 2 * t)) / 2
+    : (1 + easeOutElastic(2 * t - 1)) / 2
+
+const range = (amount: number) =>
+  Array.from({ length: amount - 1 }, (_, index) => (index + 1) / amount)
+
+const cubic = (...value: CubicBezier): EasingPreset => ({
+  type: 'cubic-bezier',
+  value,
+})
+
+/**
+ * Named easing presets: CSS named easings and Robert Penner's easing equations.
+ * Penner equations that a single cubic can describe are cubic approximations (https://easings.net),
+ * bounce and elastic are approximated with extra anchors.
+ */
+export const EASING_PRESETS = {
+  // CSS
+  linear: cubic(0, 0, 1, 1),
+  ease: cubic(0.25, 0.1, 0.25, 1),
+  'ease-in': cubic(0.42, 0, 1, 1),
+  'ease-out': cubic(0, 0, 0.58, 1),
+  'ease-in-out': cubic(0.42, 0, 0.58, 1),
+  // Penner
+  easeInSine: cubic(0.12, 0, 0.39, 0),
+  easeOutSine: cubic(0.61, 1, 0.88, 1),
+  easeInOutSine: cubic(0.37, 0, 0.63, 1),
+  easeInQuad: cubic(0.11, 0, 0.5, 0),
+  easeOutQuad: cubic(0.5, 1, 0.89, 1),
+  easeInOutQuad: cubic(0.45, 0, 0.55, 1),
+  easeInCubic: cubic(0.32, 0, 0.67, 0),
+  easeOutCubic: cubic(0.33, 1, 0.68, 1),
+  easeInOutCubic: cubic(0.65, 0, 0.35, 1),
+  easeInQuart: cubic(0.5, 0, 0.75, 0),
+  easeOutQuart: cubic(0.25, 1, 0.5, 1),
+  easeInOutQuart: cubic(0.76, 0, 0.24, 1),
+  easeInQuint: cubic(0.64, 0, 0.78, 0),
+  easeOutQuint: cubic(0.22, 1, 0.36, 1),
+  easeInOutQuint: cubic(0.83, 0, 0.17, 1),
+  easeInExpo: cubic(0.7, 0, 0.84, 0),
+  easeOutExpo: cubic(0.16, 1, 0.3, 1),
+  easeInOutExpo: cubic(0.87, 0, 0.13, 1),
+  easeInCirc: cubic(0.55, 0, 1, 0.45),
+  easeOutCirc: cubic(0, 0.55, 0.45, 1),
+  easeInOutCirc: cubic(0.85, 0, 0.15, 1),
+  easeInBack: cubic(0.36, 0, 0.66, -0.56),
+  easeOutBack: cubic(0.34, 1.56, 0.64, 1),
+  easeInOutBack: cubic(0.68, -0.6, 0.32, 1.6),
+  easeInBounce: {
+    type: 'function',
+    easing: (t) => 1 - easeOutBounce(1 - t),
+    breakpoints: bounceBreakpoints.map((t) => 1 - t).reverse(),
+  },
+  easeOutBounce: {
+    type: 'function',
+    easing: easeOutBounce,
+    breakpoints: bounceBreakpoints,
+  },
+  easeInOutBounce: {
+    type: 'function',
+    easing: (t) =>
+      t < 0.5
+        ? (1 - easeOutBounce(1 - 2 * t)) / 2
+        : (1 + easeOutBounce(2 * t - 1)) / 2,
+    breakpoints: [
+      ...bounceBreakpoints.map((t) => (1 - t) / 2).reverse(),
+      0.5,
+      ...bounceBreakpoints.map((t) => (1 + t) / 2),
+    ],
+  },
+  easeInElastic: {
+    type: 'function',
+    easing: easeInElastic,
+    breakpoints: range(16),
+  },
+  easeOutElastic: {
+    type: 'function',
+    easing: easeOutElastic,
+    breakpoints: range(16),
+  },
+  easeInOutElastic: {
+    type: 'function',
+    easing: easeInOutElastic,
+    breakpoints: range(24),
+  },
+} satisfies Record<string, EasingPreset>
+
+export type EasingPresetName = keyof typeof EASING_PRESETS
+
+/**
+ * Resolves a preset from its name or from a custom `cubic-bezier(x1, y1, x2, y2)` string.
+ * @throws when the preset is unknown or the `cubic-bezier()` is invalid
+ */
+export function getEasingPreset(
+  preset: EasingPresetName | string | EasingPreset
+): EasingPreset {
+  if (typeof preset === 'object') return preset
+
+  if (preset in EASING_PRESETS) {
+    return EASING_PRESETS[preset as EasingPresetName]
+  }
+
+  const match = preset.match(/^\s*cubic-bezier\(([^)]*)\)\s*$/)
+  if (!match) {
+    throw `Unknown easing preset ${preset}`
+  }
+
+  const value = match[1].split(',').map((value) => Number(value.trim()))
+  if (
+    value.length !== 4 ||
+    value.some((value) => !Number.isFinite(value)) ||
+    value[0] < 0 ||
+    value[0] > 1 ||
+    value[2] < 0 ||
+    value[2] > 1
+  ) {
+    throw `Invalid easing ${preset}: expected cubic-bezier(x1, y1, x2, y2) with x1 and x2 in range [0-1]`
+  }
+
+  return { type: 'cubic-bezier', value: value as CubicBezier }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                  Apply Easing                                  */
+/*                                                                                */
+/**********************************************************************************/
+
+const EPSILON = 1e-6
+
+/** One-sided derivative of an easing function. */
+function derivative(easing: (t: number) => number, t: number, side: -1 | 1) {
+  const t2 = Math.max(0, Math.min(1, t + EPSILON * side))
+  return (easing(t2) - easing(t)) / (t2 - t)
+}
+
+/**
+ * Materializes the controls of an anchor and marks it as `broken`,
+ * so the controls set by the preset are not overwritten by its tangent mode.
+ */
+function prepareAnchor(anchors: Anchors, index: number): Anchor {
+  const [position] = anchors[index]
+  const controls = resolveRelativeControls(anchors, index)
+  return [
+    { ...position },
+    {
+      ...controls,
+      mode: controls.mode ? 'broken' : undefined,
+    },
+  ]
+}
+
+/**
+ * Applies an easing preset to the segments starting at `indices`.
+ * The preset is converted into the relative `pre`/`post` format:
+ * - `post.x`/`pre.x` as a ratio of the distance to the next/previous anchor
+ * - `post.y`/`pre.y` as an offset of the anchor's value
+ * Presets of type `function` insert extra anchors at their breakpoints.
+ * @returns the new anchors, and for each original anchor its new index
+ */
+export function applyEasingToAnchors(
+  anchors: Anchors,
+  indices: Array<number>,
+  preset: EasingPreset
+) {
+  const segments = new Set(
+    indices.filter((index) => index >= 0 && index < anchors.length - 1)
+  )
+
+  const result: Anchors = []
+  const indexMap: Array<number> = []
+
+  const prepared = anchors.map((_, index) =>
+    segments.has(index) || segments.has(index - 1)
+      ? prepareAnchor(anchors, index)
+      : anchors[index]
+  )
+
+  prepared.forEach((anchor, index) => {
+    indexMap[index] = result.length
+    result.push(anchor)
+
+    if (!segments.has(index)) return
+
+    const start = anchor
+    const end = prepared[index + 1]
+    const delta = {
+      x: end[0].x - start[0].x,
+      y: end[0].y - start[0].y,
+    }
+
+    start[1] = { ...start[1], interpolation: 'bezier' }
+
+    if (preset.type === 'cubic-bezier') {
+      const [x1, y1, x2, y2] = preset.value
+      start[1].post = { x: x1, y: y1 * delta.y }
+      end[1] = { ...end[1], pre: { x: 1 - x2, y: (y2 - 1) * delta.y } }
+      return
+    }
+
+    // Hermite interpolation between the breakpoints, converted to bezier controls
+    const { easing } = preset
+    const ts = [0, ...preset.breakpoints.filter((t) => t > 0 && t < 1), 1]
+
+    ts.forEach((t, i) => {
+      const previousT = ts[i - 1]
+      const nextT = ts[i + 1]
+
+      const pre =
+        previousT !== undefined
+          ? {
+              x: 1 / 3,
+              y: (-derivative(easing, t, -1) * (t - previousT) * delta.y) / 3,
+            }
+          : undefined
+      const post =
+        nextT !== undefined
+          ? {
+              x: 1 / 3,
+              y: (derivative(easing, t, 1) * (nextT - t) * delta.y) / 3,
+            }
+          : undefined
+
+      if (i === 0) {
+        start[1]!.post = post
+      } else if (i === ts.length - 1) {
+        end[1] = { ...end[1], pre }
+      } else {
+        result.push([
+          {
+            x: start[0].x + t * delta.x,
+            y: start[0].y + easing(t) * delta.y,
+          },
+          { pre, post, mode: 'broken' },
+        ])
+      }
+    })
+  })
+
+  return { anchors: result, indexMap }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { mapExtrapolatedTime } from './extrapolate'
+
+const first = { x: 0, y: 0 }
+const last = { x: 10, y: 5 }
+
+describe('mapExtrapolatedTime', () => {
+  it('does not map times inside of the curve', () => {
+    expect(
+      mapExtrapolatedTime(5, first, last, { pre: 'cycle', post: 'cycle' })
+    ).toEqual({ time: 5, offset: 0, direction: 1 })
+  })
+
+  it('holds the outer anchors', () => {
+    const config = { pre: 'hold', post: 'hold' } as const
+    expect(mapExtrapolatedTime(-5, first, last, config).time).toBe(0)
+    expect(mapExtrapolatedTime(15, first, last, config).time).toBe(10)
+  })
+
+  it('cycles, with an offset for cycle-offset', () => {
+    expect(
+      mapExtrapolatedTime(23, first, last, { pre: 'hold', post: 'cycle' })
+    ).toEqual({ time: 3, offset: 0, direction: 1 })
+    expect(
+      mapExtrapolatedTime(-7, first, last, {
+        pre: 'cycle-offset',
+        post: 'hold',
+      })
+    ).toEqual({ time: 3, offset: -5, direction: 1 })
+  })
+
+  it('reverses odd cycles of ping-pong', () => {
+    expect(
+      mapExtrapolatedTime(13, first, last, { pre: 'hold', post: 'ping-pong' })
+    ).toEqual({ time: 7, offset: 0, direction: -1 })
+  })
+
+  it('flags linear extrapolation', () => {
+    expect(
+      mapExtrapolatedTime(-1, first, last, { pre: 'linear', post: 'hold' })
+        .linear
+    ).toBe('pre')
+  })
+})
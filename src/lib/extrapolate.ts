@@ -0,0 +1,95 @@
+import { Vector } from '#/types'
+
+/**
+ * How a curve continues outside of its first and last anchor:
+ * - `hold`: keeps the value of the outer anchor
+ * - `linear`: continues with the velocity at the outer anchor
+ * - `cycle`: repeats the curve
+ * - `cycle-offset`: repeats the curve, offset by the difference between the last and first value every cycle
+ * - `ping-pong`: repeats the curve, alternating between forwards and backwards
+ */
+export type Extrapolation =
+  | 'hold'
+  | 'linear'
+  | 'cycle'
+  | 'cycle-offset'
+  | 'ping-pong'
+
+export const EXTRAPOLATIONS: Array<Extrapolation> = [
+  'hold',
+  'linear',
+  'cycle',
+  'cycle-offset',
+  'ping-pong',
+]
+
+export type ExtrapolationConfig = {
+  pre: Extrapolation
+  post: Extrapolation
+}
+
+export type ExtrapolatedTime = {
+  /** Time mapped inside the range of the curve. */
+  time: number
+  /** Offset added to the value. */
+  offset: number
+  /** -1 when the curve is evaluated backwards, as the odd cycles of `ping-pong`. */
+  direction: 1 | -1
+  /** Set when the time is extrapolated linearly from an outer anchor. */
+  linear?: 'pre' | 'post'
+}
+
+const modulo = (value: number, divisor: number) =>
+  ((value % divisor) + divisor) % divisor
+
+/**
+ * Maps a time outside of the curve, spanning from `first` to `last`, back inside of it.
+ */
+export function mapExtrapolatedTime(
+  time: number,
+  first: Vector,
+  last: Vector,
+  extrapolation: ExtrapolationConfig
+): ExtrapolatedTime {
+  const result: ExtrapolatedTime = { time, offset: 0, direction: 1 }
+
+  const type = time < first.x ? 'pre' : time > last.x ? 'post' : undefined
+
+  if (!type) return result
+
+  const mode = extrapolation[type]
+  const duration = last.x - first.x
+
+  if (mode === 'linear') {
+    result.linear = type
+    return result
+  }
+
+  if (mode === 'hold' || duration === 0) {
+    result.time = type === 'pre' ? first.x : last.x
+    return result
+  }
+
+  const cycle = Math.floor((time - first.x) / duration)
+  const local = modulo(time - first.x, duration)
+
+  switch (mode) {
+    case 'cycle':
+      result.time = first.x + local
+      break
+    case 'cycle-offset':
+      result.time = first.x + local
+      result.offset = cycle * (last.y - first.y)
+      break
+    case 'ping-pong':
+      if (modulo(cycle, 2) === 1) {
+        result.time = last.x - local
+        result.direction = -1
+      } else {
+        result.time = first.x + local
+      }
+      break
+  }
+
+  return result
+}
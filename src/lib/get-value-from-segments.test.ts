@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { Anchor, Segment } from '#/types'
+import { createLookupMap } from './create-cubic-lookup-map'
+import {
+  createLookupHint,
+  getValueFromSegments,
+} from './get-value-from-segments'
+
+function createSegments(anchors: Array<Anchor>): Array<Segment> {
+  return anchors.slice(0, -1).map((anchor, index) => ({
+    range: [anchor[0].x, anchors[index + 1][0].x],
+    ...createLookupMap(anchor, anchors[index + 1]),
+  }))
+}
+
+describe('getValueFromSegments', () => {
+  it('interpolates linear segments', () => {
+    const segments = createSegments([[{ x: 0, y: 0 }], [{ x: 10, y: 20 }]])
+    expect(getValueFromSegments(segments, 2.5)).toBeCloseTo(5)
+  })
+
+  it('holds the outer values', () => {
+    const segments = createSegments([[{ x: 0, y: 1 }], [{ x: 10, y: 2 }]])
+    expect(getValueFromSegments(segments, -5)).toBe(1)
+    expect(getValueFromSegments(segments, 15)).toBe(2)
+  })
+
+  it('resolves the time of a step anchor to the value of that anchor', () => {
+    const segments = createSegments([
+      [{ x: 0, y: 0 }, { interpolation: 'step' }],
+      [{ x: 10, y: 1 }, { interpolation: 'step' }],
+      [{ x: 20, y: 2 }, { interpolation: 'step' }],
+    ])
+    expect(getValueFromSegments(segments, 0)).toBe(0)
+    expect(getValueFromSegments(segments, 9.99)).toBe(0)
+    expect(getValueFromSegments(segments, 10)).toBe(1)
+    expect(getValueFromSegments(segments, 19.99)).toBe(1)
+    expect(getValueFromSegments(segments, 20)).toBe(2)
+  })
+
+  it('returns the same values with a hint, moving forward and backward', () => {
+    const segments = createSegments([
+      [{ x: 0, y: 0 }, { post: { x: 5, y: 20 } }],
+      [
+        { x: 10, y: 10 },
+        { pre: { x: 5, y: 0 }, interpolation: 'step' },
+      ],
+      [{ x: 20, y: 5 }],
+      [{ x: 30, y: -5 }],
+    ])
+    const hint = createLookupHint()
+    const times = [
+      ...Array.from({ length: 61 }, (_, index) => index / 2),
+      25,
+      3,
+      10,
+      29,
+      0,
+    ]
+    for (const time of times) {
+      expect(getValueFromSegments(segments, time, hint)).toBe(
+        getValueFromSegments(segments, time)
+      )
+    }
+  })
+
+  it('follows forward playback with the hint', () => {
+    const segments = createSegments([
+      [{ x: 0, y: 0 }, { post: { x: 5, y: 20 } }],
+      [{ x: 10, y: 10 }],
+      [{ x: 20, y: 0 }],
+    ])
+    const hint = createLookupHint()
+    getValueFromSegments(segments, 9.9, hint)
+    expect(hint.segment).toBe(0)
+    getValueFromSegments(segments, 10, hint)
+    expect(hint).toEqual({ segment: 1, sample: 0 })
+  })
+})
@@ -1,56 +1,122 @@
 import { Segment } from '#/types'
 import { getLastArrayItem } from '#/utils/get-last-array-item'
-import { interpolateYAtX } from './interpolate-y-at-x'
 
-function closestPoint(segments: Array<Segment>, time: number) {
-  if (segments.length === 0) {
-    return []
+/**
+ * Remembers where the previous lookup ended.
+ * When time moves forward, as during playback, the next lookup only searches from there on:
+ * the search gallops forward from the previous segment and sample, so it stays short when
+ * time moves by a few samples. Lookups at earlier times fall back to a full binary search.
+ * A hint belongs to a single caller: lookups at unrelated times would keep invalidating it.
+ */
+export type LookupHint = {
+  segment: number
+  sample: number
+}
+
+export const createLookupHint = (): LookupHint => ({ segment: 0, sample: 0 })
+
+/** Index of the last segment starting at or before `time`. */
+function findSegment(
+  segments: Array<Segment>,
+  time: number,
+  hint?: LookupHint
+) {
+  let min = 0
+  let max = segments.length - 1
+
+  // Gallop forward from the hint until a segment starts after `time`
+  if (hint && hint.segment <= max && segments[hint.segment].range[0] <= time) {
+    min = hint.segment
+    let step = 1
+    while (min + step <= max && segments[min + step].range[0] <= time) {
+      min += step
+      step *= 2
+    }
+    max = Math.min(max, min + step - 1)
   }
 
-  const min = segments[0]
-  const max = getLastArrayItem(segments)
+  while (min < max) {
+    const middle = (min + max + 1) >> 1
+    if (segments[middle].range[0] > time) {
+      max = middle - 1
+    } else {
+      min = middle
+    }
+  }
+  // Segments share their boundaries: a time at a boundary belongs to the segment starting there,
+  // so a step segment jumps to the value of its end anchor at the time of that anchor
+  return min
+}
 
-  if (time < min.range[0]) {
-    return [min.map[0], null]
+/** Index of the last sample at or before `time`, so that `xs[index] <= time <= xs[index + 1]`. */
+function findSample(xs: Float64Array, time: number, hint?: LookupHint) {
+  let min = 0
+  let max = xs.length - 2
+
+  // Gallop forward from the hint until a sample is at or after `time`
+  if (hint && hint.sample <= max && xs[hint.sample] < time) {
+    min = hint.sample
+    let step = 1
+    while (min + step <= max && xs[min + step] < time) {
+      min += step
+      step *= 2
+    }
+    max = Math.min(max, min + step - 1)
   }
 
-  if (time > max.range[1]) {
-    return [null, getLastArrayItem(max.map)]
+  while (min < max) {
+    const middle = (min + max) >> 1
+    if (xs[middle + 1] < time) {
+      min = middle + 1
+    } else {
+      max = middle
+    }
+  }
+  return min
+}
+
+/**
+ * Evaluates the sampled segments at `time`.
+ * @param hint speeds up lookups at increasing times, see `LookupHint`
+ */
+export function getValueFromSegments(
+  segments: Array<Segment>,
+  time: number,
+  hint?: LookupHint
+) {
+  if (segments.length === 0) {
+    return 0
   }
 
-  // NOTE:  this is not the fastest way of doing these lookups
-  //        maybe we can investigate another method (binary search p.ex)
-  const segment = segments.find((segment) => {
-    return segment.range[0] <= time && time <= segment.range[1]
-  })
+  const first = segments[0]
+  const last = getLastArrayItem(segments)
 
-  if (!segment) {
-    console.error('This should not happen')
-    return [null, null]
+  if (time < first.range[0]) {
+    return first.ys[0]
   }
 
-  // NOTE:  this is not the fastest way of doing these lookups
-  //        maybe we can investigate another method (binary search p.ex)
-  for (let i = 0; i < segment.map.length; i++) {
-    const current = segment.map[i]
-    const next = segment.map[i + 1]
+  if (time >= last.range[1]) {
+    return last.ys[last.ys.length - 1]
+  }
 
-    if (!next) continue
+  const segmentIndex = findSegment(segments, time, hint)
+  const { xs, ys } = segments[segmentIndex]
 
-    if (current.x <= time && time <= next.x) {
-      return [current, next]
-    }
+  if (hint && hint.segment !== segmentIndex) {
+    hint.segment = segmentIndex
+    hint.sample = 0
   }
 
-  return [null, null]
-}
+  const index = findSample(xs, time, hint)
+
+  if (hint) {
+    hint.sample = index
+  }
 
-export function getValueFromSegments(segments: Array<Segment>, time: number) {
-  const [left, right] = closestPoint(segments, time)
+  const x1 = xs[index]
+  const x2 = xs[index + 1]
 
-  if (left === null && right) return right.y
-  if (right === null && left) return left.y
-  if (left === null || right === null) return 0
+  if (x2 === x1) return ys[index]
 
-  return interpolateYAtX(left, right, time)
+  return ys[index] + ((ys[index + 1] - ys[index]) * (time - x1)) / (x2 - x1)
 }
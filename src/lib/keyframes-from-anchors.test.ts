@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { Anchors } from '#/types'
+import { keyframesFromAbsoluteAnchors } from './keyframes-from-anchors'
+import { resolveAbsoluteAnchor } from './tangent-mode'
+
+const easings = (anchors: Anchors) =>
+  keyframesFromAbsoluteAnchors(anchors, 'opacity').keyframes.map(
+    (keyframe) => keyframe.easing
+  )
+
+describe('keyframesFromAbsoluteAnchors', () => {
+  it('eases cubic segments with cubic-bezier()', () => {
+    const { keyframes, delay, duration } = keyframesFromAbsoluteAnchors(
+      [
+        [{ x: 100, y: 0 }, { post: { x: 125, y: 0 } }],
+        [{ x: 200, y: 1 }, { pre: { x: 175, y: 1 } }],
+      ],
+      'opacity'
+    )
+    expect({ delay, duration }).toEqual({ delay: 100, duration: 100 })
+    expect(keyframes).toEqual([
+      { offset: 0, opacity: 0, easing: 'cubic-bezier(0.25, 0, 0.75, 1)' },
+      { offset: 1, opacity: 1 },
+    ])
+  })
+
+  it('eases segments without controls or with linear interpolation linearly', () => {
+    expect(
+      easings([
+        [{ x: 0, y: 0 }],
+        [
+          { x: 10, y: 1 },
+          { post: { x: 12, y: 5 }, interpolation: 'linear' },
+        ],
+        [{ x: 20, y: 0 }],
+      ])
+    ).toEqual(['linear', 'linear', undefined])
+  })
+
+  it('eases step segments with steps()', () => {
+    expect(
+      easings([[{ x: 0, y: 0 }, { interpolation: 'step' }], [{ x: 10, y: 1 }]])
+    ).toEqual(['steps(1, jump-end)', undefined])
+  })
+
+  it('eases controls outside of the segment with a sampled linear()', () => {
+    const [easing] = easings([
+      [{ x: 0, y: 0 }, { post: { x: 15, y: 0 } }],
+      [{ x: 10, y: 1 }, { pre: { x: 5, y: 1 } }],
+    ])
+    expect(easing).toMatch(/^linear\(0 0%, .*, 1 100%\)$/)
+  })
+
+  it('eases aligned controls that exceed the segment with linear()', () => {
+    const anchors: Anchors = [
+      [{ x: 0, y: 0 }],
+      [
+        { x: 10, y: 10 },
+        { pre: { x: 0.5, y: 0 }, post: { x: 0.9, y: 10 }, mode: 'aligned' },
+      ],
+      [{ x: 12, y: 0 }],
+    ]
+    const absoluteAnchors = anchors.map((_, index) =>
+      resolveAbsoluteAnchor(anchors, index)
+    )
+    expect(easings(absoluteAnchors)[1]).toMatch(/^linear\(/)
+  })
+
+  it('samples curved segments between equal values into keyframes', () => {
+    const { keyframes } = keyframesFromAbsoluteAnchors(
+      [
+        [{ x: 0, y: 0 }, { post: { x: 2.5, y: 1 } }],
+        [{ x: 10, y: 0 }, { pre: { x: 7.5, y: 1 } }],
+      ],
+      'opacity',
+      { samples: 4 }
+    )
+    expect(keyframes.map((keyframe) => keyframe.offset)).toEqual([
+      0, 0.25, 0.5, 0.75, 1,
+    ])
+    expect(keyframes[2].opacity).toBeCloseTo(0.75, 1)
+    expect(keyframes.slice(0, -1).every((k) => k.easing === 'linear')).toBe(
+      true
+    )
+  })
+})
@@ -0,0 +1,169 @@
+import { Anchor, Segment, Vector } from '#/types'
+import { createLookupMap } from './create-cubic-lookup-map'
+import { getValueFromSegments } from './get-value-from-segments'
+import { cubicControlPoints } from './solve-bezier'
+
+export type KeyframesConfig = {
+  /** Formats the value of a keyframe, p.ex `(value) => \`${value}px\``. */
+  format?(value: number): string | number
+  /** Amount of samples used for segments that can not be expressed as `cubic-bezier()`. */
+  samples?: number
+}
+
+export type KeyframesResult = {
+  keyframes: Array<Keyframe>
+  /** Time of the first anchor. */
+  delay: number
+  /** Time between the first and the last anchor. */
+  duration: number
+}
+
+const round = (value: number) => Math.round(value * 100000) / 100000
+
+/**
+ * Returns the `cubic-bezier()` easing of a cubic segment between different values,
+ * or `undefined` if the segment can not be expressed as one:
+ * the x-values of its controls have to be in range of the segment, which aligned controls can exceed.
+ */
+function cubicBezierFromSegment(start: Anchor, end: Anchor) {
+  const [from, to] = [start[0], end[0]]
+  const [, control1, control2] = cubicControlPoints(start, end)
+
+  const x1 = (control1.x - from.x) / (to.x - from.x)
+  const x2 = (control2.x - from.x) / (to.x - from.x)
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) return undefined
+
+  const y1 = (control1.y - from.y) / (to.y - from.y)
+  const y2 = (control2.y - from.y) / (to.y - from.y)
+
+  return `cubic-bezier(${[x1, y1, x2, y2].map(round).join(', ')})`
+}
+
+function sampleSegment(start: Anchor, end: Anchor, samples: number) {
+  const segments: Array<Segment> = [
+    {
+      range: [start[0].x, end[0].x],
+      ...createLookupMap(start, end),
+    },
+  ]
+  return Array.from({ length: samples + 1 }, (_, index) => {
+    const x = start[0].x + ((end[0].x - start[0].x) * index) / samples
+    return { x, y: getValueFromSegments(segments, x) }
+  })
+}
+
+/**
+ * Returns a sampled CSS `linear()` easing of a segment.
+ * The values are relative to the start and end value of the segment.
+ */
+function linearFromSegment(start: Anchor, end: Anchor, samples: number) {
+  const [from, to] = [start[0], end[0]]
+  const stops = sampleSegment(start, end, samples).map(({ x, y }) => {
+    const progress = (y - from.y) / (to.y - from.y)
+    const percentage = ((x - from.x) / (to.x - from.x)) * 100
+    return `${round(progress)} ${round(percentage)}%`
+  })
+  return `linear(${stops.join(', ')})`
+}
+
+/**
+ * Returns the easing of a segment:
+ * - `steps()` and `linear` for step and linear interpolation, and for segments without controls
+ * - `cubic-bezier()` for cubic segments that can be normalized to one
+ * - a sampled `linear()` for any other segment between different values
+ * - `undefined` for curved segments between equal values, which no easing can describe
+ *   since an easing only interpolates between the start and end value
+ */
+function easingFromSegment(start: Anchor, end: Anchor, samples: number) {
+  const [from, to] = [start[0], end[0]]
+  const interpolation = start[1]?.interpolation
+  if (interpolation === 'step') return 'steps(1, jump-end)'
+  if (interpolation === 'linear') return 'linear'
+  if (!start[1]?.post && !end[1]?.pre) return 'linear'
+
+  if (from.y === to.y) {
+    const [, control1, control2] = cubicControlPoints(start, end)
+    return control1.y === from.y && control2.y === from.y ? 'linear' : undefined
+  }
+
+  return (
+    cubicBezierFromSegment(start, end) ?? linearFromSegment(start, end, samples)
+  )
+}
+
+/**
+ * Converts absolute anchors into Web Animations API keyframes.
+ * Each segment is eased with `cubic-bezier()` when possible, and falls back to:
+ * - a sampled `linear()` easing when the controls can not be normalized to `cubic-bezier()`
+ * - sampled keyframes when start and end value of a segment are equal, since an easing can not
+ *   describe a curve between equal values
+ */
+export function keyframesFromAbsoluteAnchors(
+  absoluteAnchors: Array<Anchor>,
+  property: string,
+  config?: KeyframesConfig
+): KeyframesResult {
+  const format = config?.format || ((value: number) => value)
+  const samples = config?.samples || 20
+
+  if (absoluteAnchors.length === 0) {
+    return { keyframes: [], delay: 0, duration: 0 }
+  }
+
+  const first = absoluteAnchors[0][0]
+  const last = absoluteAnchors[absoluteAnchors.length - 1][0]
+  const duration = last.x - first.x
+
+  const keyframe = (position: Vector, easing?: string): Keyframe => ({
+    offset: duration === 0 ? 0 : round((position.x - first.x) / duration),
+    [property]: format(position.y),
+    ...(easing ? { easing } : {}),
+  })
+
+  const keyframes: Array<Keyframe> = []
+
+  absoluteAnchors.forEach((start, index) => {
+    const end = absoluteAnchors[index + 1]
+
+    if (!end) {
+      keyframes.push(keyframe(start[0]))
+      return
+    }
+
+    const easing = easingFromSegment(start, end, samples)
+    if (easing) {
+      keyframes.push(keyframe(start[0], easing))
+      return
+    }
+
+    sampleSegment(start, end, samples)
+      .slice(0, -1)
+      .forEach((position) => keyframes.push(keyframe(position, 'linear')))
+  })
+
+  return { keyframes, delay: first.x, duration }
+}
+
+/**
+ * Animates a CSS property of an element with the Web Animations API.
+ * The timeline's x-values are interpreted as milliseconds.
+ */
+export function animateAbsoluteAnchors(
+  element: Element,
+  absoluteAnchors: Array<Anchor>,
+  property: string,
+  options?: KeyframesConfig & KeyframeAnimationOptions
+) {
+  const { format, samples, ...animationOptions } = options || {}
+  const { keyframes, delay, duration } = keyframesFromAbsoluteAnchors(
+    absoluteAnchors,
+    property,
+    { format, samples }
+  )
+  return element.animate(keyframes, {
+    delay,
+    duration,
+    fill: 'both',
+    ...animationOptions,
+  })
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { Anchors } from '#/types'
+import { anchorsFromLottie, LottieKeyframe, lottieFromAnchors } from './lottie'
+
+describe('lottie', () => {
+  it('converts a static property into a single anchor', () => {
+    expect(anchorsFromLottie({ a: 0, k: [3, 4] }, { dimension: 1 })).toEqual([
+      [{ x: 0, y: 4 }],
+    ])
+  })
+
+  it('converts eased keyframes into relative controls', () => {
+    const anchors = anchorsFromLottie(
+      {
+        a: 1,
+        k: [
+          {
+            t: 0,
+            s: [0],
+            o: { x: [0.25], y: [0.1] },
+            i: { x: [0.75], y: [0.9] },
+          },
+          { t: 10, s: [100] },
+        ],
+      },
+      { timeScale: 2 }
+    )
+    expect(anchors[0]).toEqual([{ x: 0, y: 0 }, { post: { x: 0.25, y: 10 } }])
+    expect(anchors[1][0]).toEqual({ x: 20, y: 100 })
+    expect(anchors[1][1]!.pre!.x).toBeCloseTo(0.25)
+    expect(anchors[1][1]!.pre!.y).toBeCloseTo(-10)
+  })
+
+  it('round-trips anchors', () => {
+    const anchors: Anchors = [
+      [{ x: 0, y: 0 }, { post: { x: 0.25, y: 10 } }],
+      [{ x: 20, y: 100 }, { pre: { x: 0.25, y: -50 } }],
+    ]
+    const lottie = lottieFromAnchors(anchors, { timeScale: 2 })
+    expect(anchorsFromLottie(lottie, { timeScale: 2 })).toEqual(anchors)
+  })
+
+  it('exports the tangents of aligned anchors as drawn', () => {
+    const anchors: Anchors = [
+      [{ x: 0, y: 0 }],
+      [
+        { x: 10, y: 10 },
+        { pre: { x: 0.5, y: -5 }, post: { x: 0.5, y: 0 }, mode: 'aligned' },
+      ],
+      [{ x: 20, y: 0 }],
+    ]
+    const lottie = lottieFromAnchors(anchors)
+    const [first, second] = lottie.k as Array<LottieKeyframe>
+    const pick = (value: number | Array<number>) =>
+      Array.isArray(value) ? value[0] : value
+
+    // Denormalize the tangents of the middle anchor
+    const pre = {
+      x: pick(first.i!.x) * 10 - 10,
+      y: pick(first.i!.y) * 10 - 10,
+    }
+    const post = {
+      x: pick(second.o!.x) * 10,
+      y: pick(second.o!.y) * -10,
+    }
+    expect(pre.y / pre.x).toBeCloseTo(post.y / post.x)
+  })
+
+  it('throws on empty anchors', () => {
+    expect(() => lottieFromAnchors([])).toThrow(/at least one anchor/)
+  })
+
+  it('exports step segments as hold keyframes', () => {
+    const lottie = lottieFromAnchors([
+      [{ x: 0, y: 0 }, { interpolation: 'step' }],
+      [{ x: 10, y: 1 }],
+    ])
+    expect(lottie.a === 1 && lottie.k[0].h).toBe(1)
+  })
+})
@@ -0,0 +1,191 @@
+import { Anchor, Anchors, Vector } from '#/types'
+import { resolveAbsoluteAnchor } from './tangent-mode'
+
+type LottieTangentValue = number | Array<number>
+
+export type LottieTangent = {
+  x: LottieTangentValue
+  y: LottieTangentValue
+}
+
+export type LottieKeyframe = {
+  /** Time of the keyframe in frames. */
+  t: number
+  /** Start value of the keyframe. */
+  s?: Array<number>
+  /** End value of the keyframe, used by older versions of the format. */
+  e?: Array<number>
+  /** Outgoing tangent, normalized to the segment starting at this keyframe. */
+  o?: LottieTangent
+  /** Incoming tangent, normalized to the segment starting at this keyframe. */
+  i?: LottieTangent
+  /** Hold: the value is kept until the next keyframe. */
+  h?: 0 | 1
+}
+
+export type LottieProperty =
+  | { a: 0; k: number | Array<number> }
+  | { a: 1; k: Array<LottieKeyframe> }
+
+export type LottieConfig = {
+  /** Amount of x-units of the timeline per Lottie frame, defaults to 1. */
+  timeScale?: number
+  /** Index of the dimension of a multi-dimensional property, defaults to 0. */
+  dimension?: number
+}
+
+const pick = (value: LottieTangentValue, dimension: number) =>
+  Array.isArray(value) ? value[dimension] ?? value[0] : value
+
+const isLinearTangent = (tangent: { x: number; y: number }) =>
+  tangent.x === tangent.y
+
+/**
+ * Converts a Lottie/After Effects property into anchors.
+ *
+ * Lottie's tangents are normalized to the segment (both time and value in range [0-1]),
+ * while the anchors store:
+ * - `post.x`/`pre.x` as a ratio of the distance to the next/previous anchor
+ * - `post.y`/`pre.y` as an offset of the anchor's value
+ */
+export function anchorsFromLottie(
+  property: LottieProperty,
+  config?: LottieConfig
+): Anchors {
+  const timeScale = config?.timeScale ?? 1
+  const dimension = config?.dimension ?? 0
+
+  if (property.a === 0) {
+    return [[{ x: 0, y: pick(property.k, dimension) }]]
+  }
+
+  const keyframes = property.k
+  const values = keyframes.map(
+    (keyframe, index) =>
+      keyframe.s?.[dimension] ??
+      keyframes[index - 1]?.e?.[dimension] ??
+      keyframes[index - 1]?.s?.[dimension] ??
+      0
+  )
+
+  const anchors: Anchors = keyframes.map((keyframe, index) => [
+    { x: keyframe.t * timeScale, y: values[index] },
+  ])
+
+  keyframes.forEach((keyframe, index) => {
+    const anchor = anchors[index]
+    const next = anchors[index + 1]
+
+    if (!next) return
+
+    if (keyframe.h === 1) {
+      anchor[1] = { ...anchor[1], interpolation: 'step' }
+      return
+    }
+
+    if (!keyframe.o || !keyframe.i) return
+
+    const out = {
+      x: pick(keyframe.o.x, dimension),
+      y: pick(keyframe.o.y, dimension),
+    }
+    const _in = {
+      x: pick(keyframe.i.x, dimension),
+      y: pick(keyframe.i.y, dimension),
+    }
+
+    if (isLinearTangent(out) && isLinearTangent(_in)) return
+
+    const deltaY = next[0].y - anchor[0].y
+
+    anchor[1] = {
+      ...anchor[1],
+      post: { x: out.x, y: out.y * deltaY },
+    }
+    next[1] = {
+      ...next[1],
+      pre: { x: 1 - _in.x, y: (_in.y - 1) * deltaY },
+    }
+  })
+
+  return anchors
+}
+
+/**
+ * Converts anchors into a Lottie/After Effects property.
+ * Segments between equal values can not be normalized and are exported as linear.
+ * Throws when `anchors` is empty, since a Lottie property always has a value.
+ */
+export function lottieFromAnchors(
+  anchors: Anchors,
+  config?: LottieConfig
+): LottieProperty {
+  const timeScale = config?.timeScale ?? 1
+
+  if (anchors.length === 0) {
+    throw `Could not export anchors to Lottie: expected at least one anchor`
+  }
+
+  if (anchors.length === 1) {
+    return { a: 0, k: anchors[0][0].y }
+  }
+
+  // Resolve the controls as drawn by the timeline, including derived and aligned tangents
+  const absoluteAnchors = anchors.map((_, index) =>
+    resolveAbsoluteAnchor(anchors, index)
+  )
+
+  return {
+    a: 1,
+    k: absoluteAnchors.map(([position, controls], index) => {
+      const keyframe: LottieKeyframe = {
+        t: position.x / timeScale,
+        s: [position.y],
+      }
+
+      const next: Anchor | undefined = absoluteAnchors[index + 1]
+      if (!next) return keyframe
+
+      if (controls?.interpolation === 'step') {
+        keyframe.h = 1
+        return keyframe
+      }
+
+      const post = controls?.post
+      const pre = next[1]?.pre
+      const deltaX = next[0].x - position.x
+      const deltaY = next[0].y - position.y
+
+      // Without controls, a linear segment
+      let out = { x: 0, y: 0 }
+      let _in = { x: 1, y: 1 }
+
+      if (deltaY !== 0 && controls?.interpolation !== 'linear') {
+        const normalize = (control: Vector) => ({
+          x: (control.x - position.x) / deltaX,
+          y: (control.y - position.y) / deltaY,
+        })
+        const normalizedPost = post && normalize(post)
+        const normalizedPre = pre && normalize(pre)
+
+        if (normalizedPost && normalizedPre) {
+          out = normalizedPost
+          _in = normalizedPre
+        } else if (normalizedPost || normalizedPre) {
+          // Elevate the quadratic segment to a cubic one
+          const control = (normalizedPost || normalizedPre)!
+          out = { x: (2 / 3) * control.x, y: (2 / 3) * control.y }
+          _in = {
+            x: 1 / 3 + (2 / 3) * control.x,
+            y: 1 / 3 + (2 / 3) * control.y,
+          }
+        }
+      }
+
+      keyframe.o = { x: [out.x], y: [out.y] }
+      keyframe.i = { x: [_in.x], y: [_in.y] }
+
+      return keyframe
+    }),
+  }
+}
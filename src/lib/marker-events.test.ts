@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { applyClockRange } from './clock-range'
+import { getMarkerEvents } from './marker-events'
+
+describe('getMarkerEvents', () => {
+  it('enters and passes the markers crossed, in order', () => {
+    expect(
+      getMarkerEvents([2, 4, 8], [{ from: 1, to: 5, direction: 1 }])
+    ).toEqual([
+      { type: 'enter', index: 0, direction: 1 },
+      { type: 'pass', index: 0, direction: 1 },
+      { type: 'enter', index: 1, direction: 1 },
+      { type: 'pass', index: 1, direction: 1 },
+    ])
+  })
+
+  it('handles a straight jump backwards as scrubbing', () => {
+    expect(getMarkerEvents([5], [{ from: 9, to: 1, direction: -1 }])).toEqual([
+      { type: 'enter', index: 0, direction: -1 },
+      { type: 'pass', index: 0, direction: -1 },
+    ])
+  })
+
+  it('crosses the markers of both legs of a wrap-around', () => {
+    const { legs } = applyClockRange(9, 11, { min: 0, max: 10, loop: 'loop' })
+    expect(getMarkerEvents([0, 5, 9.5], legs)).toEqual([
+      { type: 'enter', index: 2, direction: 1 },
+      { type: 'pass', index: 2, direction: 1 },
+      { type: 'enter', index: 0, direction: 1 },
+      { type: 'pass', index: 0, direction: 1 },
+    ])
+  })
+
+  it('crosses a marker twice when bouncing back to the same time', () => {
+    const { legs } = applyClockRange(8, 12, {
+      min: 0,
+      max: 10,
+      loop: 'ping-pong',
+    })
+    expect(getMarkerEvents([9], legs)).toEqual([
+      { type: 'enter', index: 0, direction: 1 },
+      { type: 'pass', index: 0, direction: 1 },
+      { type: 'enter', index: 0, direction: -1 },
+      { type: 'pass', index: 0, direction: -1 },
+    ])
+  })
+
+  it('enters a marker at the turning point of a bounce once', () => {
+    const { legs } = applyClockRange(8, 12, {
+      min: 0,
+      max: 10,
+      loop: 'ping-pong',
+    })
+    expect(getMarkerEvents([10], legs)).toEqual([
+      { type: 'enter', index: 0, direction: 1 },
+      { type: 'pass', index: 0, direction: -1 },
+    ])
+  })
+})
@@ -0,0 +1,75 @@
+import { ClockLeg } from './clock-range'
+
+export type MarkerEventType = 'enter' | 'pass'
+
+/**
+ * - `enter`: the time reached the marker
+ * - `pass`: the time moved beyond the marker
+ *
+ * When a single update skips over a marker, both events are emitted.
+ */
+export type MarkerEvent = {
+  type: MarkerEventType
+  index: number
+  /** 1 when the time moves forward, -1 when it moves backwards. */
+  direction: 1 | -1
+}
+
+/**
+ * Events of the markers crossed while moving in a straight line from `from` to `to`.
+ * @param wrapStart the leg continues a wrap-around: markers at `from` are entered
+ * @param wrapEnd the leg ends in a wrap-around: markers at `to` are passed
+ */
+function getLegEvents(
+  times: Array<number>,
+  { from, to, direction }: ClockLeg,
+  wrapStart: boolean,
+  wrapEnd: boolean,
+  events: Array<MarkerEvent>
+) {
+  const length = (to - from) * direction
+
+  for (let i = 0; i < times.length; i++) {
+    const index = direction === 1 ? i : times.length - 1 - i
+    // Distance travelled from `from` until the marker
+    const distance = (times[index] - from) * direction
+
+    if (distance < 0 || distance > length) continue
+
+    if (wrapStart ? distance >= 0 : distance > 0) {
+      events.push({ type: 'enter', index, direction })
+    }
+    if (wrapEnd ? distance <= length : distance < length) {
+      events.push({ type: 'pass', index, direction })
+    }
+  }
+}
+
+/**
+ * Events of the markers crossed when time travels `legs`, in the order they are crossed.
+ * Between two legs the time either jumps, when wrapping around, or bounces:
+ * - a jump passes the markers at the end of the previous leg and enters the markers at the start of the next
+ * - a bounce enters the markers at the turning point once, and passes them once the time moves away
+ * @param times sorted times of the markers
+ * @param legs straight movements of the time, p.ex the `legs` of `createClock`
+ */
+export function getMarkerEvents(
+  times: Array<number>,
+  legs: Array<ClockLeg>
+): Array<MarkerEvent> {
+  const events: Array<MarkerEvent> = []
+
+  legs.forEach((leg, index) => {
+    const previous = legs[index - 1]
+    const next = legs[index + 1]
+    getLegEvents(
+      times,
+      leg,
+      !!previous && previous.to !== leg.from,
+      !!next && next.from !== leg.to,
+      events
+    )
+  })
+
+  return events
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { hexToRgb, oklabToRgb, rgbToCss, rgbToOklab } from './oklab'
+
+describe('oklab', () => {
+  it('converts reference colors', () => {
+    const white = rgbToOklab({ r: 255, g: 255, b: 255 })
+    expect(white.l).toBeCloseTo(1, 4)
+    expect(white.a).toBeCloseTo(0, 4)
+    expect(white.b).toBeCloseTo(0, 4)
+
+    const red = rgbToOklab({ r: 255, g: 0, b: 0 })
+    expect(red.l).toBeCloseTo(0.62796, 4)
+    expect(red.a).toBeCloseTo(0.22486, 4)
+    expect(red.b).toBeCloseTo(0.12585, 4)
+  })
+
+  it('round-trips sRGB through OKLab', () => {
+    for (const hex of ['#000000', '#ffffff', '#ff0000', '#1e90ff', '#7f3a12']) {
+      const rgb = hexToRgb(hex)
+      const result = oklabToRgb(rgbToOklab(rgb))
+      expect(result.r).toBeCloseTo(rgb.r, 3)
+      expect(result.g).toBeCloseTo(rgb.g, 3)
+      expect(result.b).toBeCloseTo(rgb.b, 3)
+    }
+  })
+
+  it('interpolates complementary colors through a neutral gray', () => {
+    const blue = rgbToOklab(hexToRgb('#0000ff'))
+    const yellow = rgbToOklab(hexToRgb('#ffff00'))
+    const midpoint = {
+      l: (blue.l + yellow.l) / 2,
+      a: (blue.a + yellow.a) / 2,
+      b: (blue.b + yellow.b) / 2,
+    }
+    const chroma = ({ a, b }: { a: number; b: number }) => Math.hypot(a, b)
+
+    expect(blue.l).toBeCloseTo(0.45201, 4)
+    expect(yellow.l).toBeCloseTo(0.96798, 4)
+    // The hues cancel out into a near-neutral color
+    expect(chroma(blue)).toBeGreaterThan(0.2)
+    expect(chroma(yellow)).toBeGreaterThan(0.2)
+    expect(chroma(midpoint)).toBeLessThan(0.1)
+    // Lighter than the dark gray of the sRGB midpoint rgb(128, 128, 128)
+    expect(midpoint.l).toBeGreaterThan(rgbToOklab(hexToRgb('#808080')).l)
+  })
+
+  it('clamps colors outside of the sRGB gamut', () => {
+    expect(oklabToRgb({ l: 1.2, a: 0, b: 0 })).toEqual({
+      r: 255,
+      g: 255,
+      b: 255,
+    })
+  })
+
+  it('parses hex colors', () => {
+    expect(hexToRgb('#1e90ff')).toEqual({ r: 30, g: 144, b: 255 })
+    expect(hexToRgb('f00')).toEqual({ r: 255, g: 0, b: 0 })
+    expect(() => hexToRgb('#ggg')).toThrow(/Invalid hex color/)
+    expect(rgbToCss({ r: 29.6, g: 144, b: 255 })).toBe('rgb(30, 144, 255)')
+  })
+})
@@ -0,0 +1,81 @@
+/**
+ * Conversions between sRGB and OKLab (https://bottosson.github.io/posts/oklab/).
+ * OKLab is perceptually uniform: interpolating in it avoids the muddy midpoints of sRGB interpolation.
+ */
+
+export type RGB = { r: number; g: number; b: number }
+export type OKLab = { l: number; a: number; b: number }
+
+const toLinear = (channel: number) =>
+  channel <= 0.04045
+    ? channel / 12.92
+    : Math.pow((channel + 0.055) / 1.055, 2.4)
+
+const fromLinear = (channel: number) =>
+  channel <= 0.0031308
+    ? channel * 12.92
+    : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value))
+
+/** @param rgb sRGB with channels in range [0-255] */
+export function rgbToOklab({ r, g, b }: RGB): OKLab {
+  const lr = toLinear(r / 255)
+  const lg = toLinear(g / 255)
+  const lb = toLinear(b / 255)
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb)
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb)
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb)
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  }
+}
+
+/** @returns sRGB with channels in range [0-255], clamped to the gamut */
+export function oklabToRgb({ l: L, a, b }: OKLab): RGB {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3)
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3)
+  const s = Math.pow(L - 0.0894841775 * a - 1.291485548 * b, 3)
+
+  return {
+    r:
+      clamp(
+        fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s)
+      ) * 255,
+    g:
+      clamp(
+        fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s)
+      ) * 255,
+    b:
+      clamp(
+        fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707612701 * s)
+      ) * 255,
+  }
+}
+
+/** Parses a `#rgb` or `#rrggbb` hex color. */
+export function hexToRgb(hex: string): RGB {
+  let value = hex.replace(/^#/, '')
+  if (value.length === 3) {
+    value = value
+      .split('')
+      .map((char) => char + char)
+      .join('')
+  }
+  if (!/^[0-9a-f]{6}$/i.test(value)) {
+    throw `Invalid hex color ${hex}`
+  }
+  const number = parseInt(value, 16)
+  return {
+    r: (number >> 16) & 255,
+    g: (number >> 8) & 255,
+    b: number & 255,
+  }
+}
+
+export const rgbToCss = ({ r, g, b }: RGB) =>
+  `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`
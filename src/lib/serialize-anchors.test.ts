@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { Anchors } from '#/types'
+import {
+  deserializeAnchors,
+  normalizeAnchors,
+  serializeAnchors,
+  validateAnchors,
+} from './serialize-anchors'
+
+describe('serializeAnchors', () => {
+  it('round-trips anchors', () => {
+    const anchors: Anchors = [
+      [
+        { x: 0, y: 0 },
+        { post: { x: 0.5, y: 10 }, mode: 'broken' },
+      ],
+      [
+        { x: 100, y: 50 },
+        { pre: { x: 0.5, y: 0 }, interpolation: 'step' },
+      ],
+    ]
+    expect(
+      deserializeAnchors(serializeAnchors(structuredClone(anchors)))
+    ).toEqual(anchors)
+  })
+
+  it('migrates a bare array of anchors', () => {
+    expect(deserializeAnchors('[[{"x":0,"y":1}]]')).toEqual([[{ x: 0, y: 1 }]])
+  })
+
+  it('throws on an unsupported version', () => {
+    expect(() => deserializeAnchors({ version: 2, anchors: [] })).toThrow(
+      /unsupported version 2/
+    )
+  })
+})
+
+describe('validateAnchors', () => {
+  it('reports unsorted anchors and orphan controls with their path', () => {
+    const errors = validateAnchors([
+      [{ x: 10, y: 0 }, { pre: { x: 0.5, y: 0 } }],
+      [{ x: 5, y: 0 }, { post: { x: 2, y: 0 } }],
+    ])
+    expect(errors.map(({ path }) => path)).toEqual([
+      'anchors[0][1].pre',
+      'anchors[1][0].x',
+      'anchors[1][1].post',
+      'anchors[1][1].post.x',
+    ])
+  })
+
+  it('accepts valid anchors', () => {
+    expect(
+      validateAnchors([
+        [{ x: 0, y: 0 }, { post: { x: 0.5, y: 0 } }],
+        [{ x: 10, y: 0 }, { pre: { x: 0.5, y: 0 } }],
+      ])
+    ).toEqual([])
+  })
+})
+
+describe('normalizeAnchors', () => {
+  it('sorts, drops duplicates and orphan controls and clamps relative x', () => {
+    expect(
+      normalizeAnchors([
+        [
+          { x: 10, y: 1 },
+          { post: { x: 0.5, y: 0 }, pre: { x: 2, y: 3 } },
+        ],
+        [
+          { x: 0, y: 0 },
+          { pre: { x: 0.5, y: 0 }, mode: 'unknown' },
+        ],
+        [{ x: 10, y: 2 }],
+        ['invalid'],
+      ])
+    ).toEqual([[{ x: 0, y: 0 }], [{ x: 10, y: 1 }, { pre: { x: 1, y: 3 } }]])
+  })
+})
@@ -0,0 +1,277 @@
+import {
+  Anchor,
+  Anchors,
+  Controls,
+  Interpolation,
+  TangentMode,
+  Vector,
+} from '#/types'
+import { INTERPOLATIONS } from './create-cubic-lookup-map'
+import { TANGENT_MODES } from './tangent-mode'
+
+export const SERIALIZED_ANCHORS_VERSION = 1
+
+/**
+ * Versioned format of serialized anchors.
+ * The anchors are stored in the same relative format as `createTimeline` keeps them in its store:
+ * - `pre.x`/`post.x` are ratios [0-1] of the distance to the previous/next anchor
+ * - `pre.y`/`post.y` are offsets from the anchor's position
+ */
+export type SerializedAnchors = {
+  version: typeof SERIALIZED_ANCHORS_VERSION
+  anchors: Anchors
+}
+
+export type AnchorsValidationError = {
+  /** Location of the error, p.ex `anchors[2][1].pre.x` */
+  path: string
+  message: string
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isTangentMode = (value: unknown): value is TangentMode =>
+  TANGENT_MODES.includes(value as TangentMode)
+
+const isInterpolation = (value: unknown): value is Interpolation =>
+  INTERPOLATIONS.includes(value as Interpolation)
+
+function validateVector(
+  value: unknown,
+  path: string,
+  errors: Array<AnchorsValidationError>
+): value is Vector {
+  if (!isObject(value)) {
+    errors.push({
+      path,
+      message: `Expected a vector, received ${typeof value}`,
+    })
+    return false
+  }
+  let valid = true
+  for (const key of ['x', 'y'] as const) {
+    if (!isFiniteNumber(value[key])) {
+      errors.push({
+        path: `${path}.${key}`,
+        message: `Expected a finite number, received ${String(value[key])}`,
+      })
+      valid = false
+    }
+  }
+  return valid
+}
+
+/**
+ * Validates unknown data against the `Anchors` format.
+ * @returns all the errors found, an empty array if the data is valid
+ */
+export function validateAnchors(data: unknown, path = 'anchors') {
+  const errors: Array<AnchorsValidationError> = []
+
+  if (!Array.isArray(data)) {
+    errors.push({ path, message: `Expected an array of anchors` })
+    return errors
+  }
+
+  let previousX: number | undefined = undefined
+
+  data.forEach((anchor: unknown, index) => {
+    const anchorPath = `${path}[${index}]`
+
+    if (!Array.isArray(anchor) || anchor.length < 1 || anchor.length > 2) {
+      errors.push({
+        path: anchorPath,
+        message: `Expected an anchor of the form [position, controls?]`,
+      })
+      return
+    }
+
+    const [position, controls] = anchor
+
+    if (validateVector(position, `${anchorPath}[0]`, errors)) {
+      if (previousX !== undefined && position.x <= previousX) {
+        errors.push({
+          path: `${anchorPath}[0].x`,
+          message: `Anchors should be sorted by strictly increasing x, ${position.x} follows ${previousX}`,
+        })
+      }
+      previousX = position.x
+    }
+
+    if (controls === undefined) return
+
+    if (!isObject(controls)) {
+      errors.push({
+        path: `${anchorPath}[1]`,
+        message: `Expected controls of the form { pre?, post? }`,
+      })
+      return
+    }
+
+    if (controls.mode !== undefined && !isTangentMode(controls.mode)) {
+      errors.push({
+        path: `${anchorPath}[1].mode`,
+        message: `Expected one of ${TANGENT_MODES.join(
+          ', '
+        )}, received ${String(controls.mode)}`,
+      })
+    }
+
+    if (
+      controls.interpolation !== undefined &&
+      !isInterpolation(controls.interpolation)
+    ) {
+      errors.push({
+        path: `${anchorPath}[1].interpolation`,
+        message: `Expected one of ${INTERPOLATIONS.join(
+          ', '
+        )}, received ${String(controls.interpolation)}`,
+      })
+    }
+
+    for (const type of ['pre', 'post'] as const) {
+      const control = controls[type]
+      if (control === undefined) continue
+
+      const controlPath = `${anchorPath}[1].${type}`
+
+      if (type === 'pre' && index === 0) {
+        errors.push({
+          path: controlPath,
+          message: `Orphan handle: the first anchor can not have a pre-control`,
+        })
+      }
+      if (type === 'post' && index === data.length - 1) {
+        errors.push({
+          path: controlPath,
+          message: `Orphan handle: the last anchor can not have a post-control`,
+        })
+      }
+
+      if (validateVector(control, controlPath, errors)) {
+        if (control.x < 0 || control.x > 1) {
+          errors.push({
+            path: `${controlPath}.x`,
+            message: `Expected a relative x in range [0-1], received ${control.x}`,
+          })
+        }
+      }
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Coerces unknown data into valid `Anchors`:
+ * - drops anchors without a valid position
+ * - sorts the anchors by x and drops anchors with a duplicate x
+ * - drops invalid and orphan controls, unknown tangent modes and interpolations
+ * - clamps the relative x of controls to range [0-1]
+ */
+export function normalizeAnchors(data: unknown): Anchors {
+  if (!Array.isArray(data)) return []
+
+  const isVector = (value: unknown): value is Vector =>
+    isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y)
+
+  const anchors = data
+    .filter(
+      (anchor: unknown): anchor is [Vector, unknown?] =>
+        Array.isArray(anchor) && isVector(anchor[0])
+    )
+    .sort(([a], [b]) => a.x - b.x)
+    .filter(([position], index, array) => {
+      return index === 0 || array[index - 1][0].x !== position.x
+    })
+
+  return anchors.map(([position, controls], index) => {
+    const result: Anchor = [{ x: position.x, y: position.y }]
+
+    if (!isObject(controls)) return result
+
+    const normalized: Controls = {}
+    if (isTangentMode(controls.mode)) {
+      normalized.mode = controls.mode
+    }
+    if (isInterpolation(controls.interpolation)) {
+      normalized.interpolation = controls.interpolation
+    }
+    for (const type of ['pre', 'post'] as const) {
+      const control = controls[type]
+      if (!isVector(control)) continue
+      if (type === 'pre' && index === 0) continue
+      if (type === 'post' && index === anchors.length - 1) continue
+      normalized[type] = {
+        x: Math.max(0, Math.min(1, control.x)),
+        y: control.y,
+      }
+    }
+
+    if (Object.keys(normalized).length > 0) {
+      result[1] = normalized
+    }
+
+    return result
+  })
+}
+
+/**
+ * Upgrades older formats to the current version.
+ * Version 0 is the bare `Anchors` array, as produced by calling `JSON.stringify` on the store.
+ */
+function migrate(data: unknown): unknown {
+  if (Array.isArray(data)) {
+    return { version: SERIALIZED_ANCHORS_VERSION, anchors: data }
+  }
+  return data
+}
+
+export function serializeAnchors(anchors: Anchors) {
+  const serialized: SerializedAnchors = {
+    version: SERIALIZED_ANCHORS_VERSION,
+    anchors,
+  }
+  return JSON.stringify(serialized)
+}
+
+/**
+ * Parses and validates serialized anchors.
+ * @param data a JSON string or an already parsed object
+ * @param options.normalize coerce invalid data into valid anchors instead of throwing
+ * @throws when the data is invalid and `normalize` is not set
+ */
+export function deserializeAnchors(
+  data: string | unknown,
+  options?: { normalize?: boolean }
+): Anchors {
+  const parsed = migrate(typeof data === 'string' ? JSON.parse(data) : data)
+
+  if (!isObject(parsed)) {
+    throw `Could not deserialize anchors: expected an object`
+  }
+
+  if (parsed.version !== SERIALIZED_ANCHORS_VERSION) {
+    throw `Could not deserialize anchors: unsupported version ${String(
+      parsed.version
+    )}`
+  }
+
+  if (options?.normalize) {
+    return normalizeAnchors(parsed.anchors)
+  }
+
+  const errors = validateAnchors(parsed.anchors)
+
+  if (errors.length > 0) {
+    throw `Could not deserialize anchors:\n${errors
+      .map(({ path, message }) => `- ${path}: ${message}`)
+      .join('\n')}`
+  }
+
+  return structuredClone(parsed.anchors as Anchors)
+}
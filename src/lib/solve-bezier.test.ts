@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { Anchor } from '#/types'
+import {
+  bezier,
+  cubicControlPoints,
+  getDerivativesFromAbsoluteAnchors,
+  getExactValueFromAbsoluteAnchors,
+  solveTForX,
+  X_TOLERANCE,
+} from './solve-bezier'
+
+const linear: Array<Anchor> = [[{ x: 0, y: 0 }], [{ x: 10, y: 20 }]]
+
+const eased: Array<Anchor> = [
+  [{ x: 0, y: 0 }, { post: { x: 5, y: 0 } }],
+  [{ x: 10, y: 10 }, { pre: { x: 5, y: 10 } }],
+]
+
+describe('solveTForX', () => {
+  it('solves t within X_TOLERANCE', () => {
+    const points = cubicControlPoints(eased[0], eased[1])
+    for (const x of [0.5, 2.5, 5, 7.5, 9.9]) {
+      const t = solveTForX(points, x)
+      const [p0, p1, p2, p3] = points.map((point) => point.x)
+      expect(Math.abs(bezier(p0, p1, p2, p3, t) - x)).toBeLessThan(X_TOLERANCE)
+    }
+  })
+})
+
+describe('getExactValueFromAbsoluteAnchors', () => {
+  it('evaluates linear segments', () => {
+    expect(getExactValueFromAbsoluteAnchors(linear, 2.5)).toBeCloseTo(5)
+  })
+
+  it('evaluates a symmetric ease at its center', () => {
+    expect(getExactValueFromAbsoluteAnchors(eased, 5)).toBeCloseTo(5)
+  })
+
+  it('holds the outer values', () => {
+    expect(getExactValueFromAbsoluteAnchors(eased, -10)).toBe(0)
+    expect(getExactValueFromAbsoluteAnchors(eased, 20)).toBe(10)
+  })
+
+  it('resolves the time of a step anchor to the value of that anchor', () => {
+    const step: Array<Anchor> = [
+      [{ x: 0, y: 0 }, { interpolation: 'step' }],
+      [{ x: 10, y: 1 }, { interpolation: 'step' }],
+      [{ x: 20, y: 2 }, { interpolation: 'step' }],
+    ]
+    expect(getExactValueFromAbsoluteAnchors(step, 0)).toBe(0)
+    expect(getExactValueFromAbsoluteAnchors(step, 9.99)).toBe(0)
+    expect(getExactValueFromAbsoluteAnchors(step, 10)).toBe(1)
+    expect(getExactValueFromAbsoluteAnchors(step, 19.99)).toBe(1)
+    expect(getExactValueFromAbsoluteAnchors(step, 20)).toBe(2)
+  })
+})
+
+describe('getDerivativesFromAbsoluteAnchors', () => {
+  it('returns the slope of linear segments', () => {
+    expect(getDerivativesFromAbsoluteAnchors(linear, 5)).toEqual({
+      velocity: 2,
+      acceleration: 0,
+    })
+  })
+
+  it('is flat at the eased ends and zero outside of the anchors', () => {
+    expect(getDerivativesFromAbsoluteAnchors(eased, 0).velocity).toBeCloseTo(0)
+    expect(getDerivativesFromAbsoluteAnchors(eased, 20)).toEqual({
+      velocity: 0,
+      acceleration: 0,
+    })
+  })
+})
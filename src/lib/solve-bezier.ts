@@ -0,0 +1,263 @@
+import { Anchor, Vector } from '#/types'
+import { getLastArrayItem } from '#/utils/get-last-array-item'
+
+/**
+ * Maximum distance in x between the requested x and the x of the solved t.
+ * The error in y of the exact evaluation is bounded by `X_TOLERANCE * |dy/dx|`.
+ */
+export const X_TOLERANCE = 1e-7
+const MAX_NEWTON_ITERATIONS = 8
+const MAX_BISECTION_ITERATIONS = 64
+
+/** Control points of a segment as a cubic bezier. Linear and quadratic segments are elevated. */
+export function cubicControlPoints(
+  [start, { post } = {}]: Anchor,
+  [end, { pre } = {}]: Anchor
+): [Vector, Vector, Vector, Vector] {
+  if (post && pre) {
+    return [start, post, pre, end]
+  }
+  const control = post || pre
+  if (control) {
+    return [
+      start,
+      {
+        x: start.x + (2 / 3) * (control.x - start.x),
+        y: start.y + (2 / 3) * (control.y - start.y),
+      },
+      {
+        x: end.x + (2 / 3) * (control.x - end.x),
+        y: end.y + (2 / 3) * (control.y - end.y),
+      },
+      end,
+    ]
+  }
+  return [
+    start,
+    { x: start.x + (end.x - start.x) / 3, y: start.y + (end.y - start.y) / 3 },
+    {
+      x: start.x + ((end.x - start.x) * 2) / 3,
+      y: start.y + ((end.y - start.y) * 2) / 3,
+    },
+    end,
+  ]
+}
+
+export const bezier = (
+  p0: number,
+  p1: number,
+  p2: number,
+  p3: number,
+  t: number
+) => {
+  const mt = 1 - t
+  return (
+    mt * mt * mt * p0 +
+    3 * mt * mt * t * p1 +
+    3 * mt * t * t * p2 +
+    t * t * t * p3
+  )
+}
+
+export const bezierDerivative = (
+  p0: number,
+  p1: number,
+  p2: number,
+  p3: number,
+  t: number
+) => {
+  const mt = 1 - t
+  return (
+    3 * mt * mt * (p1 - p0) + 6 * mt * t * (p2 - p1) + 3 * t * t * (p3 - p2)
+  )
+}
+
+/**
+ * Solves t for a given x of a cubic bezier.
+ * Newton-Raphson converges in a few iterations for most curves,
+ * with bisection as a fallback for flat derivatives or diverging iterations.
+ */
+export function solveTForX(
+  points: [Vector, Vector, Vector, Vector],
+  x: number
+) {
+  const [p0, p1, p2, p3] = points.map((point) => point.x)
+
+  if (x <= p0) return 0
+  if (x >= p3) return 1
+
+  let t = (x - p0) / (p3 - p0)
+
+  for (let i = 0; i < MAX_NEWTON_ITERATIONS; i++) {
+    const error = bezier(p0, p1, p2, p3, t) - x
+    if (Math.abs(error) < X_TOLERANCE) return t
+    const slope = bezierDerivative(p0, p1, p2, p3, t)
+    if (Math.abs(slope) < 1e-12) break
+    t -= error / slope
+    if (t < 0 || t > 1) break
+  }
+
+  let min = 0
+  let max = 1
+  t = 0.5
+  for (let i = 0; i < MAX_BISECTION_ITERATIONS; i++) {
+    const error = bezier(p0, p1, p2, p3, t) - x
+    if (Math.abs(error) < X_TOLERANCE) return t
+    if (error < 0) {
+      min = t
+    } else {
+      max = t
+    }
+    t = (min + max) / 2
+  }
+
+  return t
+}
+
+/** Evaluates the exact value of a segment at x. */
+export function getExactValueFromSegment(
+  start: Anchor,
+  end: Anchor,
+  x: number
+) {
+  if (start[1]?.interpolation === 'step') {
+    return start[0].y
+  }
+  if (start[1]?.interpolation === 'linear') {
+    const t = (x - start[0].x) / (end[0].x - start[0].x)
+    return start[0].y + (end[0].y - start[0].y) * t
+  }
+  const points = cubicControlPoints(start, end)
+  const t = solveTForX(points, x)
+  const [p0, p1, p2, p3] = points.map((point) => point.y)
+  return bezier(p0, p1, p2, p3, t)
+}
+
+/**
+ * Index of the segment of absolute anchors containing `time`, found with a binary search.
+ * A time at an anchor belongs to the segment starting at that anchor.
+ */
+function findSegmentIndex(absoluteAnchors: Array<Anchor>, time: number) {
+  let index = 0
+  let max = absoluteAnchors.length - 2
+  while (index < max) {
+    const middle = (index + max) >> 1
+    if (absoluteAnchors[middle + 1][0].x <= time) {
+      index = middle + 1
+    } else {
+      max = middle
+    }
+  }
+  return index
+}
+
+/**
+ * Evaluates the exact value of absolute anchors at a given time.
+ * Outside of the anchors the values of the first and last anchor are held.
+ */
+export function getExactValueFromAbsoluteAnchors(
+  absoluteAnchors: Array<Anchor>,
+  time: number
+) {
+  if (absoluteAnchors.length === 0) return 0
+
+  const first = absoluteAnchors[0]
+  const last = getLastArrayItem(absoluteAnchors)
+
+  if (time <= first[0].x) return first[0].y
+  if (time >= last[0].x) return last[0].y
+
+  const index = findSegmentIndex(absoluteAnchors, time)
+
+  return getExactValueFromSegment(
+    absoluteAnchors[index],
+    absoluteAnchors[index + 1],
+    time
+  )
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                   Derivatives                                  */
+/*                                                                                */
+/**********************************************************************************/
+
+export const bezierSecondDerivative = (
+  p0: number,
+  p1: number,
+  p2: number,
+  p3: number,
+  t: number
+) => 6 * (1 - t) * (p2 - 2 * p1 + p0) + 6 * t * (p3 - 2 * p2 + p1)
+
+/**
+ * Analytical first and second derivative of the value with respect to time (dy/dx and d²y/dx²)
+ * of a segment at x, derived from the parametric derivatives of the bezier:
+ * - dy/dx = y'(t) / x'(t)
+ * - d²y/dx² = (y''(t) x'(t) - y'(t) x''(t)) / x'(t)³
+ */
+export function getDerivativesFromSegment(
+  start: Anchor,
+  end: Anchor,
+  x: number
+) {
+  if (start[1]?.interpolation === 'step') {
+    return { velocity: 0, acceleration: 0 }
+  }
+  if (start[1]?.interpolation === 'linear') {
+    return {
+      velocity: (end[0].y - start[0].y) / (end[0].x - start[0].x),
+      acceleration: 0,
+    }
+  }
+
+  const points = cubicControlPoints(start, end)
+  const [x0, x1, x2, x3] = points.map((point) => point.x)
+  const [y0, y1, y2, y3] = points.map((point) => point.y)
+
+  let t = solveTForX(points, x)
+  // A control on top of its anchor has a vertical tangent at the end point:
+  // evaluate right next to it to get the limit instead of a division by zero
+  if (Math.abs(bezierDerivative(x0, x1, x2, x3, t)) < 1e-9) {
+    t = Math.min(1 - 1e-6, Math.max(1e-6, t))
+  }
+
+  const dx = bezierDerivative(x0, x1, x2, x3, t)
+  const dy = bezierDerivative(y0, y1, y2, y3, t)
+  const ddx = bezierSecondDerivative(x0, x1, x2, x3, t)
+  const ddy = bezierSecondDerivative(y0, y1, y2, y3, t)
+
+  if (dx === 0) {
+    return { velocity: 0, acceleration: 0 }
+  }
+
+  return {
+    velocity: dy / dx,
+    acceleration: (ddy * dx - dy * ddx) / (dx * dx * dx),
+  }
+}
+
+/**
+ * Evaluates velocity (dy/dx) and acceleration (d²y/dx²) of absolute anchors at a given time.
+ * Outside of the anchors the values are held, so both are 0.
+ */
+export function getDerivativesFromAbsoluteAnchors(
+  absoluteAnchors: Array<Anchor>,
+  time: number
+) {
+  if (
+    absoluteAnchors.length < 2 ||
+    time < absoluteAnchors[0][0].x ||
+    time > getLastArrayItem(absoluteAnchors)[0].x
+  ) {
+    return { velocity: 0, acceleration: 0 }
+  }
+
+  const index = findSegmentIndex(absoluteAnchors, time)
+
+  return getDerivativesFromSegment(
+    absoluteAnchors[index],
+    absoluteAnchors[index + 1],
+    time
+  )
+}
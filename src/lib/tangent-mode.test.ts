@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { Anchors, TangentMode } from '#/types'
+import { resolveAbsoluteAnchor, resolveRelativeControls } from './tangent-mode'
+
+const anchorsWithMode = (mode: TangentMode): Anchors => [
+  [{ x: 0, y: 0 }],
+  [
+    { x: 10, y: 10 },
+    { pre: { x: 0.5, y: -4 }, post: { x: 0.25, y: 2 }, mode },
+  ],
+  [{ x: 30, y: 30 }],
+]
+
+describe('resolveRelativeControls', () => {
+  it('derives auto controls from the slope between the neighbours', () => {
+    expect(resolveRelativeControls(anchorsWithMode('auto'), 1)).toEqual({
+      pre: { x: 1 / 3, y: -10 / 3 },
+      post: { x: 1 / 3, y: 20 / 3 },
+      mode: 'auto',
+    })
+  })
+
+  it('flattens auto controls at extremes and at the ends', () => {
+    const anchors: Anchors = [
+      [{ x: 0, y: 0 }, { mode: 'auto' }],
+      [{ x: 10, y: 10 }, { mode: 'auto' }],
+      [{ x: 20, y: 0 }],
+    ]
+    expect(resolveRelativeControls(anchors, 0)).toEqual({
+      pre: undefined,
+      post: { x: 1 / 3, y: 0 },
+      mode: 'auto',
+    })
+    expect(resolveRelativeControls(anchors, 1)).toEqual({
+      pre: { x: 1 / 3, y: -0 },
+      post: { x: 1 / 3, y: 0 },
+      mode: 'auto',
+    })
+  })
+
+  it('points vector controls towards the neighbours', () => {
+    expect(resolveRelativeControls(anchorsWithMode('vector'), 1)).toEqual({
+      pre: { x: 1 / 3, y: -10 / 3 },
+      post: { x: 1 / 3, y: 20 / 3 },
+      mode: 'vector',
+    })
+  })
+
+  it('removes the y-offset of flat controls', () => {
+    expect(resolveRelativeControls(anchorsWithMode('flat'), 1)).toEqual({
+      pre: { x: 0.5, y: 0 },
+      post: { x: 0.25, y: 0 },
+      mode: 'flat',
+    })
+  })
+
+  it('returns the stored controls of aligned and broken anchors', () => {
+    for (const mode of ['aligned', 'broken'] as const) {
+      expect(resolveRelativeControls(anchorsWithMode(mode), 1)).toEqual(
+        anchorsWithMode(mode)[1][1]
+      )
+    }
+  })
+})
+
+describe('resolveAbsoluteAnchor', () => {
+  it('keeps broken controls independent', () => {
+    expect(resolveAbsoluteAnchor(anchorsWithMode('broken'), 1)[1]).toEqual({
+      pre: { x: 5, y: 6 },
+      post: { x: 15, y: 12 },
+      mode: 'broken',
+      interpolation: undefined,
+    })
+  })
+
+  it('aligns aligned controls on a line through the anchor, keeping their lengths', () => {
+    const [point, controls] = resolveAbsoluteAnchor(
+      anchorsWithMode('aligned'),
+      1
+    )
+    const pre = { x: point.x - controls!.pre!.x, y: point.y - controls!.pre!.y }
+    const post = {
+      x: controls!.post!.x - point.x,
+      y: controls!.post!.y - point.y,
+    }
+    expect(pre.y / pre.x).toBeCloseTo(post.y / post.x)
+    expect(Math.hypot(pre.x, pre.y)).toBeCloseTo(Math.hypot(5, 4))
+    expect(Math.hypot(post.x, post.y)).toBeCloseTo(Math.hypot(5, 2))
+  })
+})
@@ -0,0 +1,144 @@
+import { Anchor, Controls, TangentMode, Vector } from '#/types'
+import { addVector } from './vector'
+
+export const TANGENT_MODES: Array<TangentMode> = [
+  'auto',
+  'aligned',
+  'broken',
+  'vector',
+  'flat',
+]
+
+/**
+ * Resolves the relative controls of the anchor at `index` according to its tangent mode.
+ * Controls of `auto` and `vector` anchors are derived from the neighbouring anchors,
+ * `flat` controls have their y-offset removed. Other modes return the stored controls.
+ */
+export function resolveRelativeControls(
+  anchors: Array<Anchor>,
+  index: number
+): Controls {
+  const [point, controls = {}] = anchors[index]
+  const prev = anchors[index - 1]?.[0]
+  const next = anchors[index + 1]?.[0]
+
+  switch (controls.mode) {
+    case 'auto': {
+      // Auto-clamped: the slope between the neighbours, flattened at the ends and at extremes
+      const isExtreme =
+        !prev ||
+        !next ||
+        (point.y >= prev.y && point.y >= next.y) ||
+        (point.y <= prev.y && point.y <= next.y)
+      const slope = isExtreme ? 0 : (next.y - prev.y) / (next.x - prev.x)
+      return {
+        ...controls,
+        pre: prev && { x: 1 / 3, y: (-slope * (point.x - prev.x)) / 3 },
+        post: next && { x: 1 / 3, y: (slope * (next.x - point.x)) / 3 },
+      }
+    }
+    case 'vector':
+      return {
+        ...controls,
+        pre: prev && { x: 1 / 3, y: (prev.y - point.y) / 3 },
+        post: next && { x: 1 / 3, y: (next.y - point.y) / 3 },
+      }
+    case 'flat':
+      return {
+        ...controls,
+        pre: controls.pre && { x: controls.pre.x, y: 0 },
+        post: controls.post && { x: controls.post.x, y: 0 },
+      }
+    default:
+      return controls
+  }
+}
+
+/**
+ * Aligns absolute controls on a single line through `point`, keeping their lengths.
+ * The shared direction is the average of both directions, so aligned controls are left untouched.
+ */
+export function alignAbsoluteControls(
+  point: Vector,
+  pre: Vector,
+  post: Vector
+): [Vector, Vector] {
+  const preDelta = { x: point.x - pre.x, y: point.y - pre.y }
+  const postDelta = { x: post.x - point.x, y: post.y - point.y }
+  const preLength = Math.hypot(preDelta.x, preDelta.y)
+  const postLength = Math.hypot(postDelta.x, postDelta.y)
+
+  if (preLength === 0 || postLength === 0) return [pre, post]
+
+  const direction = {
+    x: preDelta.x / preLength + postDelta.x / postLength,
+    y: preDelta.y / preLength + postDelta.y / postLength,
+  }
+  const length = Math.hypot(direction.x, direction.y)
+
+  if (length === 0) return [pre, post]
+
+  direction.x /= length
+  direction.y /= length
+
+  return [
+    {
+      x: point.x - direction.x * preLength,
+      y: point.y - direction.y * preLength,
+    },
+    {
+      x: point.x + direction.x * postLength,
+      y: point.y + direction.y * postLength,
+    },
+  ]
+}
+
+/**
+ * Resolves the anchor at `index` into an absolute anchor, as drawn by the timeline:
+ * the controls are resolved according to the tangent mode and converted to absolute positions,
+ * controls of `aligned` anchors are aligned on a single line.
+ */
+export function resolveAbsoluteAnchor(
+  anchors: Array<Anchor>,
+  index: number
+): Anchor {
+  const [point] = anchors[index]
+  // Controls of auto, vector and flat anchors are derived from their neighbours
+  const relativeControls = resolveRelativeControls(anchors, index)
+  const controls: Controls = {
+    pre: undefined,
+    post: undefined,
+    mode: relativeControls.mode,
+    interpolation: relativeControls.interpolation,
+  }
+
+  const pre = relativeControls.pre
+  if (pre) {
+    const prev = anchors[index - 1][0]
+    const deltaX = point.x - prev.x
+    controls.pre = addVector(point, {
+      x: deltaX * pre.x * -1,
+      y: pre.y,
+    })
+  }
+
+  const post = relativeControls.post
+  if (post) {
+    const next = anchors[index + 1][0]
+    const deltaX = next.x - point.x
+    controls.post = addVector(point, {
+      x: deltaX * post.x,
+      y: post.y,
+    })
+  }
+
+  if (controls.mode === 'aligned' && controls.pre && controls.post) {
+    ;[controls.pre, controls.post] = alignAbsoluteControls(
+      point,
+      controls.pre,
+      controls.post
+    )
+  }
+
+  return [point, controls]
+}
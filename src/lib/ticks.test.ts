@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { getNiceStep, getTicks } from './ticks'
+
+describe('getNiceStep', () => {
+  it('rounds up to 1, 2 or 5 times a power of 10', () => {
+    expect(getNiceStep(0.3)).toBe(0.5)
+    expect(getNiceStep(1)).toBe(1)
+    expect(getNiceStep(13)).toBe(20)
+    expect(getNiceStep(600)).toBe(1000)
+  })
+})
+
+describe('getTicks', () => {
+  it('spaces major ticks at least MIN_TICK_SPACING pixels apart', () => {
+    const { step, major, minor } = getTicks(-10, 500, 1)
+    expect(step).toBe(100)
+    expect(major).toEqual([0, 100, 200, 300, 400, 500])
+    expect(minor.slice(0, 2)).toEqual([20, 40])
+    expect(minor).not.toContain(100)
+  })
+
+  it('places ticks on whole frames', () => {
+    const { step } = getTicks(0, 1000, 0.5, 24)
+    expect(step).toBeCloseTo((5 * 1000) / 24)
+    expect(getTicks(0, 1000, 20, 30)).toEqual(
+      expect.objectContaining({ step: 1000 / 30, minor: [] })
+    )
+  })
+
+  it('is empty for an empty range', () => {
+    expect(getTicks(10, 10, 1).major).toEqual([])
+  })
+})
@@ -0,0 +1,77 @@
+import { frameToTime, timeToFrame } from './timecode'
+
+/** Minimum distance in pixels between two major ticks. */
+export const MIN_TICK_SPACING = 80
+
+export type Ticks = {
+  /** Distance in time between two major ticks. */
+  step: number
+  major: Array<number>
+  /** Ticks between the major ticks. */
+  minor: Array<number>
+}
+
+/** Amount of minor steps between two major ticks: halves for steps of 2, fifths for steps of 1 and 5. */
+function getSubdivisions(step: number) {
+  const mantissa = Math.round(step / Math.pow(10, Math.floor(Math.log10(step))))
+  return mantissa === 2 ? 2 : 5
+}
+
+/** Smallest number of the sequence 1, 2, 5, 10, 20, 50, ... that is at least `minimum`. */
+export function getNiceStep(minimum: number) {
+  const base = Math.pow(10, Math.floor(Math.log10(minimum)))
+  for (const mantissa of [1, 2, 5]) {
+    if (mantissa * base >= minimum) return mantissa * base
+  }
+  return 10 * base
+}
+
+/** Multiples of `step` from `start` to `end`, computed from their index to avoid accumulating errors. */
+function getMultiples(start: number, end: number, step: number) {
+  const first = Math.ceil(start / step)
+  const last = Math.floor(end / step)
+  return Array.from(
+    { length: Math.max(0, last - first + 1) },
+    (_, index) => (first + index) * step
+  )
+}
+
+/**
+ * Ticks of an axis from `start` to `end`, with major ticks at least `spacing` pixels apart.
+ * With a frame rate, the ticks are placed on whole frames.
+ * @param zoom pixels per unit
+ */
+export function getTicks(
+  start: number,
+  end: number,
+  zoom: number,
+  fps?: number,
+  spacing = MIN_TICK_SPACING
+): Ticks {
+  if (!(end > start) || !(zoom > 0)) return { step: 0, major: [], minor: [] }
+
+  const minimum = spacing / zoom
+
+  let step: number
+  let minorStep: number
+  if (fps) {
+    const frames = Math.max(1, getNiceStep(timeToFrame(minimum, fps)))
+    const minorFrames = Math.max(
+      1,
+      Math.round(frames / getSubdivisions(frames))
+    )
+    step = frameToTime(frames, fps)
+    minorStep = frameToTime(minorFrames, fps)
+  } else {
+    step = getNiceStep(minimum)
+    minorStep = step / getSubdivisions(step)
+  }
+
+  const major = getMultiples(start, end, step)
+  const ratio = Math.round(step / minorStep)
+  const minor = getMultiples(start, end, minorStep).filter(
+    (tick) => Math.round(tick / minorStep) % ratio !== 0
+  )
+
+  return { step, major, minor }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import {
+  convertFrameRate,
+  formatTime,
+  formatTimecode,
+  snapToFrame,
+} from './timecode'
+
+describe('timecode', () => {
+  it('snaps to whole frames', () => {
+    expect(snapToFrame(40, 30)).toBeCloseTo(100 / 3)
+    expect(snapToFrame(1000, 30)).toBe(1000)
+  })
+
+  it('formats SMPTE timecode', () => {
+    expect(formatTimecode(3_723_500, 24)).toBe('01:02:03:12')
+    expect(formatTimecode(-1000, 30)).toBe('-00:00:01:00')
+  })
+
+  it('formats times as configured', () => {
+    expect(formatTime(1000, 30, 'frames')).toBe('30')
+    expect(formatTime(12.345)).toBe('12.35')
+    expect(formatTime(1000, 30, 'raw')).toBe('1000')
+  })
+
+  it('converts frame rates by time or by frames', () => {
+    expect(convertFrameRate([0, 1000], 24, 30, 'time')).toEqual([0, 1000])
+    expect(convertFrameRate([0, 1000], 24, 48, 'frames')).toEqual([0, 500])
+  })
+
+  it('keeps converted times strictly increasing', () => {
+    const [a, b] = convertFrameRate([0, 10], 100, 24, 'time')
+    expect(b).toBeGreaterThan(a)
+  })
+})
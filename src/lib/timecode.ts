@@ -0,0 +1,71 @@
+/**
+ * Times are expressed in milliseconds, the unit of `createClock`: a frame at `fps` lasts `1000 / fps`.
+ */
+
+/**
+ * How times are displayed:
+ * - `timecode`: SMPTE timecode `hh:mm:ss:ff`
+ * - `frames`: frame numbers
+ * - `raw`: the time itself
+ */
+export type TimeFormat = 'timecode' | 'frames' | 'raw'
+
+/**
+ * How anchors are converted when the frame rate changes:
+ * - `time`: anchors keep their time, snapped to the closest frame of the new frame rate
+ * - `frames`: anchors keep their frame number, which changes the duration of the animation
+ */
+export type FrameRateConversion = 'time' | 'frames'
+
+/** Tolerance of the conversion to frames, so rounding errors do not drop a frame. */
+const FRAME_EPSILON = 1e-9
+
+export const timeToFrame = (time: number, fps: number) => (time * fps) / 1000
+
+export const frameToTime = (frame: number, fps: number) => (frame * 1000) / fps
+
+export const snapToFrame = (time: number, fps: number) =>
+  frameToTime(Math.round(timeToFrame(time, fps)), fps)
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/** Formats a time as SMPTE timecode `hh:mm:ss:ff`, non-integer frame rates are not drop-frame. */
+export function formatTimecode(time: number, fps: number) {
+  const sign = time < 0 ? '-' : ''
+  const rate = Math.round(fps)
+  const frames = Math.floor(timeToFrame(Math.abs(time), fps) + FRAME_EPSILON)
+  const seconds = Math.floor(frames / rate)
+  return `${sign}${pad(Math.floor(seconds / 3600))}:${pad(
+    Math.floor(seconds / 60) % 60
+  )}:${pad(seconds % 60)}:${pad(frames % rate)}`
+}
+
+export function formatTime(time: number, fps?: number, format?: TimeFormat) {
+  if (!fps || format === 'raw') return String(Math.round(time * 100) / 100)
+  if (format === 'frames') {
+    return String(Math.floor(timeToFrame(time, fps) + FRAME_EPSILON))
+  }
+  return formatTimecode(time, fps)
+}
+
+/**
+ * Converts sorted times from one frame rate to another.
+ * Times that would land on the same frame are spread over consecutive frames, to keep them sorted.
+ */
+export function convertFrameRate(
+  times: Array<number>,
+  from: number,
+  to: number,
+  conversion: FrameRateConversion = 'time'
+) {
+  let previous = -Infinity
+  return times.map((time) => {
+    const frame =
+      conversion === 'frames'
+        ? Math.round(timeToFrame(time, from))
+        : Math.round(timeToFrame(time, to))
+    const result = Math.max(frame, previous + 1)
+    previous = result
+    return frameToTime(result, to)
+  })
+}
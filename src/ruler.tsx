@@ -0,0 +1,152 @@
+import clsx from 'clsx'
+import {
+  ComponentProps,
+  createMemo,
+  createSignal,
+  Index,
+  onCleanup,
+  splitProps,
+} from 'solid-js'
+import { getTicks } from './lib/ticks'
+import { useSheet } from './sheet'
+import styles from './timeline.module.css'
+import { pointerHelper } from './utils/pointer-helper'
+
+/** Ticks of the visible part of the sheet, for a component of `width` pixels. */
+function createTicks(width: () => number) {
+  const { pan, zoomX, fps } = useSheet()
+  return createMemo(() =>
+    getTicks(-pan(), width() / zoomX() - pan(), zoomX(), fps())
+  )
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Grid                                      */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Vertical grid lines at the ticks of the `Ruler`, drawn inside of an svg.
+ */
+export function Grid(props: { width: number; height: number }) {
+  const { pan, zoomX } = useSheet()
+  const ticks = createTicks(() => props.width)
+  const projectX = (x: number) => (x + pan()) * zoomX()
+
+  return (
+    <g class={styles.grid} style={{ 'pointer-events': 'none' }}>
+      <Index each={ticks().minor}>
+        {(tick) => (
+          <line
+            class={styles.minor}
+            x1={projectX(tick())}
+            x2={projectX(tick())}
+            y1={0}
+            y2={props.height}
+          />
+        )}
+      </Index>
+      <Index each={ticks().major}>
+        {(tick) => (
+          <line
+            class={styles.major}
+            x1={projectX(tick())}
+            x2={projectX(tick())}
+            y1={0}
+            y2={props.height}
+          />
+        )}
+      </Index>
+    </g>
+  )
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Ruler                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Time axis of the sheet, with ticks adapting to the zoom.
+ * Clicking or dragging on the ruler scrubs the time of the sheet.
+ */
+export function Ruler(props: ComponentProps<'svg'>) {
+  const { pan, zoomX, time, setTime, formatTime, onWheel } = useSheet()
+  const [, rest] = splitProps(props, ['class'])
+
+  const [domRect, setDomRect] = createSignal<DOMRect>()
+  const width = () => domRect()?.width || 0
+  const height = () => domRect()?.height || 0
+  const ticks = createTicks(width)
+  const projectX = (x: number) => (x + pan()) * zoomX()
+
+  async function onScrubStart(event: PointerEvent) {
+    const start = event.layerX / zoomX() - pan()
+    setTime(start)
+    await pointerHelper(event, ({ delta }) => {
+      setTime(start - delta.x / zoomX())
+    })
+  }
+
+  return (
+    <svg
+      ref={(element) => {
+        function updateDomRect() {
+          setDomRect(element.getBoundingClientRect())
+        }
+        const observer = new ResizeObserver(updateDomRect)
+        observer.observe(element)
+        updateDomRect()
+        onCleanup(() => observer.disconnect())
+      }}
+      width="100%"
+      height="100%"
+      class={clsx(props.class, styles.ruler)}
+      onPointerDown={onScrubStart}
+      onWheel={onWheel}
+      {...rest}
+    >
+      <Index each={ticks().minor}>
+        {(tick) => (
+          <line
+            class={styles.minor}
+            x1={projectX(tick())}
+            x2={projectX(tick())}
+            y1={height() * 0.75}
+            y2={height()}
+          />
+        )}
+      </Index>
+      <Index each={ticks().major}>
+        {(tick) => (
+          <>
+            <line
+              class={styles.major}
+              x1={projectX(tick())}
+              x2={projectX(tick())}
+              y1={height() * 0.4}
+              y2={height()}
+            />
+            <text
+              class={styles.rulerLabel}
+              x={projectX(tick()) + 3}
+              y={height() * 0.4}
+            >
+              {formatTime(tick())}
+            </text>
+          </>
+        )}
+      </Index>
+      <g class={styles.timeIndicator} style={{ 'pointer-events': 'none' }}>
+        <line
+          x1={projectX(time())}
+          x2={projectX(time())}
+          y1={0}
+          y2={height()}
+        />
+      </g>
+    </svg>
+  )
+}
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { render } from 'solid-js/web'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { createComposition } from './create-composition'
+import { createTimeline } from './create-timeline'
+import { Sheet, useSheet } from './sheet'
+
+beforeAll(() => {
+  globalThis.ResizeObserver ??= class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  }
+})
+
+let dispose: (() => void) | undefined
+
+afterEach(() => {
+  dispose?.()
+  dispose = undefined
+})
+
+describe('Sheet', () => {
+  it('undoes a change of frame rate and the retimed anchors at once', () => {
+    let timeline!: ReturnType<typeof createTimeline>
+    let sheet!: ReturnType<typeof useSheet>
+
+    dispose = render(() => {
+      timeline = createTimeline({
+        initial: [[{ x: 0, y: 0 }], [{ x: 10, y: 1 }], [{ x: 21, y: 2 }]],
+      })
+      return (
+        <Sheet fps={100}>
+          {(() => {
+            sheet = useSheet()
+            return null
+          })()}
+          <timeline.Component min={0} max={2} />
+        </Sheet>
+      )
+    }, document.body)
+
+    sheet.setFps(50)
+    expect(sheet.fps()).toBe(50)
+    expect(timeline.anchors().map(([{ x }]) => x)).toEqual([0, 20, 40])
+
+    sheet.history.undo()
+    expect(sheet.fps()).toBe(100)
+    expect(timeline.anchors().map(([{ x }]) => x)).toEqual([0, 10, 21])
+    expect(sheet.history.canUndo()).toBe(false)
+
+    timeline.history.redo()
+    expect(sheet.fps()).toBe(50)
+    expect(timeline.anchors().map(([{ x }]) => x)).toEqual([0, 20, 40])
+  })
+  it('converts the clips of a composition when the frame rate changes', () => {
+    let composition!: ReturnType<typeof createComposition>
+    let sheet!: ReturnType<typeof useSheet>
+
+    dispose = render(() => {
+      composition = createComposition({
+        sources: { source: { value: createTimeline() } },
+        clips: [{ source: 'source', start: 10, in: 0, out: 21 }],
+      })
+      return (
+        <Sheet fps={100}>
+          {(() => {
+            sheet = useSheet()
+            return null
+          })()}
+          <composition.Component />
+        </Sheet>
+      )
+    }, document.body)
+
+    sheet.setFps(50)
+    expect(composition.clips()[0]).toEqual(
+      expect.objectContaining({ start: 20, in: 0, out: 20 })
+    )
+
+    sheet.history.undo()
+    expect(composition.clips()[0]).toEqual(
+      expect.objectContaining({ start: 10, in: 0, out: 21 })
+    )
+  })
+})
@@ -1,24 +1,101 @@
 import {
   Accessor,
+  batch,
   ComponentProps,
   createContext,
   createSignal,
   mergeProps,
+  onCleanup,
   Setter,
   splitProps,
   useContext,
 } from 'solid-js'
+import { Clock } from './create-clock'
+import { createHistory, History, isLinkableHistory } from './create-history'
+import {
+  convertFrameRate,
+  formatTime,
+  FrameRateConversion,
+  snapToFrame,
+  TimeFormat,
+} from './lib/timecode'
 import { createWritable } from './utils/create-writable'
 
+/** Distance in pixels within which dragged handles snap to the snap targets of the Sheet. */
+export const SNAP_DISTANCE = 6
+/** Zoom factor per pixel of wheel movement. */
+export const WHEEL_ZOOM_SPEED = 0.002
+/** Default limits of the horizontal zoom, in pixels per millisecond. */
+const MIN_ZOOM = 0.001
+const MAX_ZOOM = 100
+/** Distance in pixels kept between the fitted times and the edges of the sheet. */
+const FIT_PADDING = 20
+/** Part of the remaining distance covered every frame by a smooth zoom. */
+const ZOOM_SMOOTHING = 0.3
+
+/** Receives a conversion of sorted times and applies it to the times of a track. */
+export type FrameRateConverter = (
+  convert: (times: Array<number>) => Array<number>
+) => void
+
 const SheetContext = createContext<{
   pan: Accessor<number>
   setPan: Setter<number>
   zoomX: Accessor<number>
+  /** Sets the horizontal zoom, clamped to `minZoom` and `maxZoom`. */
   setZoomX: Setter<number>
+  /** Sets the horizontal zoom and pan together, animated when `smoothZoom` is set. */
+  setViewX(zoom: number, pan: number): void
+  /** Zooms horizontally with `factor`, keeping the time at pixel `x` in place. */
+  zoomXAround(factor: number, x: number): void
+  /**
+   * Pans with the horizontal scroll of the wheel.
+   * Zooms around the cursor with ctrl/cmd+wheel, which is also how browsers report a trackpad pinch.
+   */
+  onWheel(event: WheelEvent): void
+  /**
+   * Registers times that `zoomToFit` fits in view, p.ex the anchors of a timeline.
+   * The targets are removed when the calling owner is cleaned up.
+   */
+  addFitTargets(targets: Accessor<Array<number>>): void
+  /** Fits the zoom and pan to the fit targets of all the tracks of the sheet. */
+  zoomToFit(): void
   time: Accessor<number>
   setTime: Setter<number>
   isDraggingHandle: Accessor<boolean>
   setIsDraggingHandle: Setter<boolean>
+  history: History
+  /**
+   * Records the changes of a track in the history of the sheet, when the track was created without a history.
+   * The link is removed when the calling owner is cleaned up.
+   */
+  linkHistory(history: History): void
+  /**
+   * Registers times that dragged handles snap to, p.ex the markers of a marker track.
+   * The targets are removed when the calling owner is cleaned up.
+   */
+  addSnapTargets(targets: Accessor<Array<number>>): void
+  /**
+   * Snaps `time` to the closest target within `threshold`.
+   * Without a target in reach, `time` is snapped to whole frames when `snapToFrames` is set.
+   */
+  snap(time: number, threshold: number): number
+  /** Frame rate of the sheet, times are in milliseconds. */
+  fps: Accessor<number | undefined>
+  /**
+   * Changes the frame rate and converts the times of all the tracks of the sheet,
+   * in a single history entry.
+   */
+  setFps(fps: number, conversion?: FrameRateConversion): void
+  /** Snaps `time` to whole frames when `snapToFrames` is set. */
+  snapToFrame(time: number): number
+  /** Formats `time` as configured with `timeFormat`. */
+  formatTime(time: number): string
+  /**
+   * Registers a conversion of times, called when the frame rate changes.
+   * The conversion is removed when the calling owner is cleaned up.
+   */
+  addFrameRateConverter(converter: FrameRateConverter): void
 }>()
 
 export function useSheet() {
@@ -34,27 +111,262 @@ export function Sheet(
     time?: number
     pan?: number
     zoom?: number
+    history?: History
+    /** Clock driving the time of the sheet, scrubbing the time seeks the clock. */
+    clock?: Clock
+    /** Frame rate, times are in milliseconds. */
+    fps?: number
+    /** Snaps dragged and added anchors to whole frames. */
+    snapToFrames?: boolean
+    /** Display of times, defaults to `timecode` when the sheet has a frame rate. */
+    timeFormat?: TimeFormat
+    /** Minimum horizontal zoom, in pixels per millisecond. */
+    minZoom?: number
+    /** Maximum horizontal zoom, in pixels per millisecond. */
+    maxZoom?: number
+    /** Animates zooming with the wheel and zooming to fit. */
+    smoothZoom?: boolean
   }
 ) {
-  const config = mergeProps({ time: 0, pan: 0, zoom: 1 }, props)
-  const [, rest] = splitProps(props, ['children'])
-  const [pan, setPan] = createWritable(() => config.pan)
-  const [zoomX, setZoomX] = createWritable(() => config.zoom)
-  const [time, setTime] = createWritable(() => config.time)
+  const config = mergeProps(
+    { time: 0, pan: 0, zoom: 1, minZoom: MIN_ZOOM, maxZoom: MAX_ZOOM },
+    props
+  )
+  const [, rest] = splitProps(props, [
+    'children',
+    'history',
+    'clock',
+    'fps',
+    'snapToFrames',
+    'timeFormat',
+    'minZoom',
+    'maxZoom',
+    'smoothZoom',
+    'ref',
+  ])
+  let element: HTMLDivElement | undefined
+  const [pan, setPanUnanimated] = createWritable(() => config.pan)
+  const [zoomX, setZoomXUnclamped] = createWritable(() => config.zoom)
+  const [ownTime, setOwnTime] = createWritable(() => config.time)
+  const time = () => (props.clock ? props.clock[0]() : ownTime())
+  const setTime = ((value: number | ((time: number) => number)) => {
+    const _value = typeof value === 'function' ? value(time()) : value
+    if (props.clock) {
+      props.clock[1].seek(_value)
+    } else {
+      setOwnTime(_value)
+    }
+    return _value
+  }) as Setter<number>
   const [isDraggingHandle, setIsDraggingHandle] = createSignal(false)
 
+  const clampZoom = (zoom: number) =>
+    Math.max(config.minZoom, Math.min(config.maxZoom, zoom))
+
+  // Zoom and pan a smooth zoom is animating towards
+  let viewTarget: { zoom: number; pan: number } | undefined
+  let viewFrame: number | undefined
+  onCleanup(() => {
+    if (viewFrame !== undefined) cancelAnimationFrame(viewFrame)
+  })
+
+  // Panning and zooming directly interrupts a smooth zoom
+  const setPan = ((value: number | ((pan: number) => number)) => {
+    viewTarget = undefined
+    return setPanUnanimated(value)
+  }) as Setter<number>
+
+  const setZoomX = ((value: number | ((zoom: number) => number)) => {
+    viewTarget = undefined
+    const _value = typeof value === 'function' ? value(zoomX()) : value
+    return setZoomXUnclamped(clampZoom(_value))
+  }) as Setter<number>
+
+  function animateView() {
+    viewFrame = undefined
+    if (!viewTarget) return
+    const target = viewTarget
+
+    // Zoom is interpolated exponentially, so zooming in and out feel alike
+    const zoom = zoomX() * Math.pow(target.zoom / zoomX(), ZOOM_SMOOTHING)
+    const _pan = pan() + (target.pan - pan()) * ZOOM_SMOOTHING
+
+    const done =
+      Math.abs(zoom / target.zoom - 1) < 1e-3 &&
+      Math.abs(_pan - target.pan) * zoom < 0.5
+
+    batch(() => {
+      setZoomXUnclamped(done ? target.zoom : zoom)
+      setPanUnanimated(done ? target.pan : _pan)
+    })
+
+    if (done) {
+      viewTarget = undefined
+    } else {
+      viewFrame = requestAnimationFrame(animateView)
+    }
+  }
+
+  function setViewX(zoom: number, _pan: number) {
+    zoom = clampZoom(zoom)
+    if (!props.smoothZoom) {
+      batch(() => {
+        setZoomX(zoom)
+        setPan(_pan)
+      })
+      return
+    }
+    viewTarget = { zoom, pan: _pan }
+    if (viewFrame === undefined) viewFrame = requestAnimationFrame(animateView)
+  }
+
+  function zoomXAround(factor: number, x: number) {
+    // Consecutive zooms accumulate on the target of a running animation
+    const current = viewTarget || { zoom: zoomX(), pan: pan() }
+    const time = x / current.zoom - current.pan
+    const zoom = clampZoom(current.zoom * factor)
+    setViewX(zoom, x / zoom - time)
+  }
+
+  function onWheel(event: WheelEvent) {
+    if (event.ctrlKey || event.metaKey) {
+      event.preventDefault()
+      zoomXAround(Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED), event.layerX)
+      return
+    }
+    setPan((pan) => pan + event.deltaX)
+  }
+
+  const [fitTargets, setFitTargets] = createSignal<
+    Array<Accessor<Array<number>>>
+  >([])
+
+  function addFitTargets(targets: Accessor<Array<number>>) {
+    setFitTargets((fitTargets) => [...fitTargets, targets])
+    onCleanup(() =>
+      setFitTargets((fitTargets) =>
+        fitTargets.filter((fitTarget) => fitTarget !== targets)
+      )
+    )
+  }
+
+  function zoomToFit() {
+    const times = fitTargets().flatMap((targets) => targets())
+    const width = element?.clientWidth
+    if (times.length === 0 || !width) return
+
+    const min = Math.min(...times)
+    const max = Math.max(...times)
+
+    // A single time is centered at the current zoom
+    if (max === min) {
+      setViewX(zoomX(), width / 2 / zoomX() - min)
+      return
+    }
+
+    const zoom = clampZoom((width - FIT_PADDING * 2) / (max - min))
+    setViewX(zoom, FIT_PADDING / zoom - min)
+  }
+  const history = props.history || createHistory()
+
+  function linkHistory(track: History) {
+    if (!isLinkableHistory(track) || track === history) return
+    onCleanup(track.link(history))
+  }
+  const [snapTargets, setSnapTargets] = createSignal<
+    Array<Accessor<Array<number>>>
+  >([])
+
+  function addSnapTargets(targets: Accessor<Array<number>>) {
+    setSnapTargets((snapTargets) => [...snapTargets, targets])
+    onCleanup(() =>
+      setSnapTargets((snapTargets) =>
+        snapTargets.filter((snapTarget) => snapTarget !== targets)
+      )
+    )
+  }
+
+  const [fps, setFpsUnrecorded] = createWritable(() => props.fps)
+  const [frameRateConverters, setFrameRateConverters] = createSignal<
+    Array<FrameRateConverter>
+  >([])
+
+  function addFrameRateConverter(converter: FrameRateConverter) {
+    setFrameRateConverters((converters) => [...converters, converter])
+    onCleanup(() =>
+      setFrameRateConverters((converters) =>
+        converters.filter((_converter) => _converter !== converter)
+      )
+    )
+  }
+
+  function setFps(to: number, conversion: FrameRateConversion = 'time') {
+    const from = fps()
+    if (from === to) return
+    history.transaction(() => {
+      setFpsUnrecorded(to)
+      history.push({
+        undo: () => setFpsUnrecorded(from),
+        redo: () => setFpsUnrecorded(to),
+      })
+      if (!from) return
+      frameRateConverters().forEach((converter) =>
+        converter((times) => convertFrameRate(times, from, to, conversion))
+      )
+    })
+  }
+
+  function _snapToFrame(time: number) {
+    const _fps = fps()
+    return props.snapToFrames && _fps ? snapToFrame(time, _fps) : time
+  }
+
+  function snap(time: number, threshold: number) {
+    let result = _snapToFrame(time)
+    let distance = threshold
+    snapTargets().forEach((targets) =>
+      targets().forEach((target) => {
+        if (Math.abs(target - time) <= distance) {
+          distance = Math.abs(target - time)
+          result = target
+        }
+      })
+    )
+    return result
+  }
+
   return (
-    <div {...rest}>
+    <div
+      ref={(_element) => {
+        element = _element
+        if (typeof props.ref === 'function') props.ref(_element)
+      }}
+      {...rest}
+    >
       <SheetContext.Provider
         value={{
           pan,
           setPan,
           zoomX,
           setZoomX,
+          setViewX,
+          zoomXAround,
+          onWheel,
+          addFitTargets,
+          zoomToFit,
           time,
           setTime,
           isDraggingHandle,
           setIsDraggingHandle,
+          history,
+          linkHistory,
+          addSnapTargets,
+          snap,
+          fps,
+          setFps,
+          snapToFrame: _snapToFrame,
+          formatTime: (time) => formatTime(time, fps(), props.timeFormat),
+          addFrameRateConverter,
         }}
       >
         {props.children}
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import { render } from 'solid-js/web'
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createComposition } from './create-composition'
+import { createMarkerTimeline } from './create-marker-timeline'
+import { createTimeline } from './create-timeline'
+import { Sheet, useSheet } from './sheet'
+
+beforeAll(() => {
+  globalThis.ResizeObserver ??= class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  }
+})
+
+let dispose: (() => void) | undefined
+
+afterEach(() => {
+  dispose?.()
+  dispose = undefined
+  vi.useRealTimers()
+})
+
+function pointerEvent(
+  type: string,
+  init: {
+    pointerId: number
+    pointerType: string
+    clientX: number
+    clientY: number
+    layerX?: number
+  }
+) {
+  return Object.assign(new Event(type, { bubbles: true }), init) as PointerEvent
+}
+
+describe('createTrackSurface', () => {
+  it('pans a marker timeline with one finger and adds a marker on long-press', () => {
+    vi.useFakeTimers()
+    let timeline!: ReturnType<typeof createMarkerTimeline>
+    let sheet!: ReturnType<typeof useSheet>
+
+    dispose = render(() => {
+      timeline = createMarkerTimeline()
+      return (
+        <Sheet>
+          {(() => {
+            sheet = useSheet()
+            return null
+          })()}
+          <timeline.Component />
+        </Sheet>
+      )
+    }, document.body)
+
+    const svg = document.querySelector('svg')!
+    const touch = { pointerId: 1, pointerType: 'touch', clientY: 0 }
+
+    svg.dispatchEvent(
+      pointerEvent('pointerdown', { ...touch, clientX: 0, layerX: 40 })
+    )
+    vi.advanceTimersByTime(500)
+    expect(timeline.markers().map((marker) => marker.time)).toEqual([40])
+
+    window.dispatchEvent(pointerEvent('pointermove', { ...touch, clientX: 30 }))
+    window.dispatchEvent(pointerEvent('pointerup', { ...touch, clientX: 30 }))
+    expect(sheet.pan()).toBe(30)
+  })
+
+  it('pans a composition with one finger', () => {
+    let sheet!: ReturnType<typeof useSheet>
+
+    dispose = render(() => {
+      const composition = createComposition({
+        sources: {
+          ramp: {
+            value: createTimeline({
+              initial: [[{ x: 0, y: 0 }], [{ x: 10, y: 10 }]],
+            }),
+          },
+        },
+        clips: [{ source: 'ramp', out: 10 }],
+      })
+      return (
+        <Sheet>
+          {(() => {
+            sheet = useSheet()
+            return null
+          })()}
+          <composition.Component />
+        </Sheet>
+      )
+    }, document.body)
+
+    const svg = document.querySelector('svg')!
+    const touch = { pointerId: 1, pointerType: 'touch', clientY: 0 }
+
+    svg.dispatchEvent(pointerEvent('pointerdown', { ...touch, clientX: 0 }))
+    window.dispatchEvent(
+      pointerEvent('pointermove', { ...touch, clientX: -20 })
+    )
+    window.dispatchEvent(pointerEvent('pointerup', { ...touch, clientX: -20 }))
+    expect(sheet.pan()).toBe(-20)
+  })
+})
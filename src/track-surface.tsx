@@ -0,0 +1,151 @@
+import clsx from 'clsx'
+import { batch, createSignal, onCleanup, Show } from 'solid-js'
+import { useSheet } from './sheet'
+import styles from './timeline.module.css'
+import { once } from './utils/once-every-when'
+import {
+  gestureHelper,
+  longPressHelper,
+  pointerHelper,
+} from './utils/pointer-helper'
+
+export type TrackSurfaceConfig = {
+  /** Adds a keyframe, anchor or marker at `time`, on double-click or on long-press with touch and pen. */
+  onAdd?(time: number): void
+  /** Dragging the background with a mouse or pen, without meta, p.ex to draw a marquee. */
+  onDragStart?(event: PointerEvent): Promise<void> | void
+  /** Vertical movement in pixels of a touch pan, for tracks with a vertical axis. */
+  onPanY?(movement: number): void
+}
+
+/**
+ * Interaction shared by the svg of every track component:
+ * - meta+drag pans horizontally, the wheel pans and zooms as `onWheel` of the `Sheet`
+ * - one finger pans, two fingers pinch to zoom horizontally around their center
+ * - double-click and long-press call `onAdd` at the time under the pointer, snapped to frames
+ * - `Indicators` draws the time of the sheet and the time under the pointer
+ */
+export function createTrackSurface(config: TrackSurfaceConfig = {}) {
+  const {
+    isDraggingHandle,
+    setPan,
+    zoomX,
+    setZoomX,
+    time,
+    pan,
+    snapToFrame,
+    onWheel,
+  } = useSheet()
+
+  const [domRect, setDomRect] = createSignal<DOMRect>()
+  const [presence, setPresence] = createSignal<number | undefined>(undefined)
+
+  const projectX = (x: number) => (x + pan()) * zoomX()
+  const timeAt = (event: PointerEvent | MouseEvent) =>
+    event.layerX / zoomX() - pan()
+
+  /** Follows the size of the svg, call from its `ref`. */
+  function ref(element: SVGSVGElement) {
+    function updateDomRect() {
+      setDomRect(element.getBoundingClientRect())
+    }
+    const observer = new ResizeObserver(updateDomRect)
+    observer.observe(element)
+    updateDomRect()
+    onCleanup(() => observer.disconnect())
+  }
+
+  // Set while following a touch gesture, so the touches joining it do not start another one
+  let isGesturing = false
+
+  async function onGestureStart(event: PointerEvent) {
+    if (isGesturing) return
+    isGesturing = true
+    await gestureHelper(event, ({ center, movement, scale }) =>
+      batch(() => {
+        setPan((pan) => pan + movement.x / zoomX())
+        config.onPanY?.(movement.y)
+        if (scale === 1) return
+        // Keep the time at the center of the fingers in place
+        const x = center.x - (domRect()?.left || 0)
+        const time = x / zoomX() - pan()
+        setZoomX((zoom) => zoom * scale)
+        setPan(x / zoomX() - time)
+      })
+    )
+    isGesturing = false
+  }
+
+  async function onPointerDown(event: PointerEvent) {
+    if (event.target !== event.currentTarget) return
+    // Long-pressing replaces double-clicking for touch and pen
+    if (config.onAdd && event.pointerType !== 'mouse' && !isGesturing) {
+      const time = snapToFrame(timeAt(event))
+      longPressHelper(event, () => config.onAdd?.(time))
+    }
+    if (event.pointerType === 'touch') {
+      await onGestureStart(event)
+    } else if (event.metaKey) {
+      const x = pan()
+      await pointerHelper(event, ({ delta, event }) => {
+        setPan(x - delta.x / zoomX())
+        setPresence(timeAt(event))
+      })
+    } else {
+      await config.onDragStart?.(event)
+    }
+  }
+
+  function onPointerMove(event: PointerEvent) {
+    setPresence(timeAt(event))
+  }
+
+  function onPointerLeave() {
+    setPresence(undefined)
+  }
+
+  function onDblClick() {
+    once(presence, (time) => config.onAdd?.(snapToFrame(time)))
+  }
+
+  /** Lines at the time of the sheet and, when the track can add, at the time under the pointer. */
+  function Indicators(props: { height: number }) {
+    return (
+      <>
+        <Show when={config.onAdd && !isDraggingHandle() && presence()}>
+          {(presence) => (
+            <g class={clsx(styles.timeIndicator, styles.presence)}>
+              <line
+                y1={0}
+                y2={props.height}
+                x1={projectX(presence())}
+                x2={projectX(presence())}
+              />
+            </g>
+          )}
+        </Show>
+        <g class={styles.timeIndicator} style={{ 'pointer-events': 'none' }}>
+          <line
+            y1={0}
+            y2={props.height}
+            x1={projectX(time())}
+            x2={projectX(time())}
+          />
+        </g>
+      </>
+    )
+  }
+
+  return {
+    domRect,
+    presence,
+    projectX,
+    ref,
+    onPointerDown,
+    onPointerMove,
+    onPointerLeave,
+    onDblClick,
+    onWheel,
+    Indicators,
+  }
+}
@@ -11,10 +11,36 @@ export type CubicPoint = PostPoint | CenterPoint | PrePoint
 export type QuadraticBezierPoint = [Vector, { pre?: Vector; post?: Vector }]
 export type LinearBezierPoint = [Vector]
 
-export type Anchor = [Vector, { pre?: Vector; post?: Vector }?]
+/**
+ * How the controls of an anchor relate to each other:
+ * - `auto`: controls are computed from the neighbouring anchors, flattened at extremes to prevent overshoot
+ * - `aligned`: controls are kept on a single line, but can have different lengths
+ * - `broken`: controls are independent of each other
+ * - `vector`: controls point towards the neighbouring anchors
+ * - `flat`: controls are kept horizontal
+ */
+export type TangentMode = 'auto' | 'aligned' | 'broken' | 'vector' | 'flat'
+
+/**
+ * How the segment starting at an anchor is interpolated:
+ * - `bezier`: linear, quadratic or cubic depending on which controls are present
+ * - `linear`: a straight line, ignoring the controls
+ * - `step`: holds the value of the anchor and jumps to the next value at the end of the segment
+ */
+export type Interpolation = 'bezier' | 'linear' | 'step'
+
+export type Controls = {
+  pre?: Vector
+  post?: Vector
+  mode?: TangentMode
+  interpolation?: Interpolation
+}
+
+export type Anchor = [Vector, Controls?]
 export type Anchors = Array<Anchor>
 
 export type Segment = {
-  range: number[]
-  map: Vector[]
+  range: [number, number]
+  xs: Float64Array
+  ys: Float64Array
 }
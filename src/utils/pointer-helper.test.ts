@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest'
+import { pointerHelper } from './pointer-helper'
+
+function pointerEvent(
+  type: string,
+  init: { pointerId: number; clientX: number; clientY: number }
+) {
+  return Object.assign(new Event(type), init) as PointerEvent
+}
+
+describe('pointerHelper', () => {
+  it('calls back on move and up, and resolves with the delta', async () => {
+    const callback = vi.fn()
+    const start = pointerEvent('pointerdown', {
+      pointerId: 1,
+      clientX: 10,
+      clientY: 10,
+    })
+    const promise = pointerHelper(start, callback)
+
+    window.dispatchEvent(
+      pointerEvent('pointermove', { pointerId: 1, clientX: 5, clientY: 8 })
+    )
+    window.dispatchEvent(
+      pointerEvent('pointerup', { pointerId: 1, clientX: 0, clientY: 6 })
+    )
+
+    const result = await promise
+    expect(callback).toHaveBeenCalledTimes(2)
+    expect(callback.mock.calls[0][0].delta).toEqual({ x: 5, y: 2 })
+    expect(result.delta).toEqual({ x: 10, y: 4 })
+    expect(result.movement).toEqual({ x: 5, y: 2 })
+    expect(result.cancelled).toBe(false)
+  })
+
+  it('resolves cancelled with the last move and skips the callback on pointercancel', async () => {
+    const callback = vi.fn()
+    const start = pointerEvent('pointerdown', {
+      pointerId: 1,
+      clientX: 10,
+      clientY: 10,
+    })
+    const promise = pointerHelper(start, callback)
+
+    window.dispatchEvent(
+      pointerEvent('pointermove', { pointerId: 1, clientX: 5, clientY: 8 })
+    )
+    window.dispatchEvent(
+      pointerEvent('pointercancel', { pointerId: 1, clientX: 0, clientY: 0 })
+    )
+
+    const result = await promise
+    expect(callback).toHaveBeenCalledTimes(1)
+    expect(result.cancelled).toBe(true)
+    expect(result.delta).toEqual({ x: 5, y: 2 })
+
+    // The listeners are removed
+    window.dispatchEvent(
+      pointerEvent('pointermove', { pointerId: 1, clientX: 0, clientY: 0 })
+    )
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+
+  it('ignores events of other pointers', async () => {
+    const callback = vi.fn()
+    const start = pointerEvent('pointerdown', {
+      pointerId: 1,
+      clientX: 10,
+      clientY: 10,
+    })
+    const promise = pointerHelper(start, callback)
+
+    window.dispatchEvent(
+      pointerEvent('pointermove', { pointerId: 2, clientX: 0, clientY: 0 })
+    )
+    window.dispatchEvent(
+      pointerEvent('pointercancel', { pointerId: 2, clientX: 0, clientY: 0 })
+    )
+    window.dispatchEvent(
+      pointerEvent('pointerup', { pointerId: 2, clientX: 0, clientY: 0 })
+    )
+    expect(callback).not.toHaveBeenCalled()
+
+    window.dispatchEvent(
+      pointerEvent('pointerup', { pointerId: 1, clientX: 10, clientY: 5 })
+    )
+
+    const result = await promise
+    expect(callback).toHaveBeenCalledTimes(1)
+    expect(result).toMatchObject({ delta: { x: 0, y: 5 }, cancelled: false })
+  })
+})
@@ -3,27 +3,36 @@ interface Vector {
   y: number
 }
 
+/** Duration in milliseconds a pointer is held down before it counts as a long-press. */
+const LONG_PRESS_DURATION = 500
+/** Distance in pixels a pointer can move while long-pressing. */
+const LONG_PRESS_DISTANCE = 8
+
 /**
  * dragHelper
  *
- * @param e MouseEvent
- * @param callback called every onMouseMove
- * @returns Promise resolved onMouseUp
+ * Only follows the pointer of `e`, so other touches do not interfere with the drag.
+ *
+ * @param e PointerEvent
+ * @param callback called every onPointerMove and onPointerUp
+ * @returns Promise resolved onPointerUp, or onPointerCancel with `cancelled` set.
+ * A cancelled pointer has no meaningful position: `callback` is not called and the data is of the last move.
  */
 export const pointerHelper = (
-  e: MouseEvent,
+  e: PointerEvent,
   callback?: (event: {
     delta: Vector
     movement: Vector
-    event: MouseEvent
+    event: PointerEvent
     time: number
   }) => void
 ) => {
   return new Promise<{
     delta: Vector
     movement: Vector
-    event: MouseEvent
+    event: PointerEvent
     time: number
+    cancelled: boolean
   }>((resolve) => {
     const start = {
       x: e.clientX,
@@ -34,8 +43,14 @@ export const pointerHelper = (
       x: 0,
       y: 0,
     }
+    let latest = {
+      delta: previousDelta,
+      movement: { x: 0, y: 0 },
+      event: e,
+      time: 0,
+    }
 
-    function getDataFromMouseEvent(event: MouseEvent) {
+    function getDataFromPointerEvent(event: PointerEvent) {
       const delta = {
         x: start.x - event.clientX,
         y: start.y - event.clientY,
@@ -45,7 +60,7 @@ export const pointerHelper = (
         y: delta.y - previousDelta.y,
       }
       previousDelta = delta
-      return {
+      latest = {
         delta: {
           x: start.x - event.clientX,
           y: start.y - event.clientY,
@@ -54,21 +69,174 @@ export const pointerHelper = (
         event,
         time: performance.now() - startTime,
       }
+      return latest
     }
 
-    const onPointerMove = (event: MouseEvent) => {
-      callback?.(getDataFromMouseEvent(event))
+    const onPointerMove = (event: PointerEvent) => {
+      if (event.pointerId !== e.pointerId) return
+      callback?.(getDataFromPointerEvent(event))
     }
 
-    const onPointerUp = (event: MouseEvent) => {
+    function cleanup() {
       window.removeEventListener('pointermove', onPointerMove)
       window.removeEventListener('pointerup', onPointerUp)
-      const data = getDataFromMouseEvent(event)
+      window.removeEventListener('pointercancel', onPointerCancel)
+    }
+
+    const onPointerUp = (event: PointerEvent) => {
+      if (event.pointerId !== e.pointerId) return
+      cleanup()
+      const data = getDataFromPointerEvent(event)
       callback?.(data)
-      resolve(data)
+      resolve({ ...data, cancelled: false })
+    }
+
+    const onPointerCancel = (event: PointerEvent) => {
+      if (event.pointerId !== e.pointerId) return
+      cleanup()
+      resolve({ ...latest, cancelled: true })
+    }
+
+    window.addEventListener('pointermove', onPointerMove)
+    window.addEventListener('pointerup', onPointerUp)
+    window.addEventListener('pointercancel', onPointerCancel)
+  })
+}
+
+/**
+ * gestureHelper
+ *
+ * Follows all the pointers pressed on the target of `e` until they are all released,
+ * p.ex to pan with one finger and to pinch with two.
+ *
+ * @param e PointerEvent
+ * @param callback called every onPointerMove with the movement of the center of the pointers,
+ * and the change in distance between the first two pointers as `scale`
+ * @returns Promise resolved when the last pointer is released
+ */
+export const gestureHelper = (
+  e: PointerEvent,
+  callback?: (event: {
+    center: Vector
+    movement: Vector
+    scale: number
+    event: PointerEvent
+  }) => void
+) => {
+  return new Promise<void>((resolve) => {
+    const target = e.currentTarget as EventTarget
+    const pointers = new Map<number, Vector>([
+      [e.pointerId, { x: e.clientX, y: e.clientY }],
+    ])
+
+    function getGesture() {
+      const points = [...pointers.values()]
+      const center = {
+        x: points.reduce((sum, { x }) => sum + x, 0) / points.length,
+        y: points.reduce((sum, { y }) => sum + y, 0) / points.length,
+      }
+      const distance =
+        points.length > 1
+          ? Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y)
+          : undefined
+      return { center, distance }
     }
 
+    let previous = getGesture()
+
+    const onPointerDown = (event: Event) => {
+      const { pointerId, clientX, clientY } = event as PointerEvent
+      pointers.set(pointerId, { x: clientX, y: clientY })
+      previous = getGesture()
+    }
+
+    const onPointerMove = (event: PointerEvent) => {
+      if (!pointers.has(event.pointerId)) return
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY })
+      const current = getGesture()
+      callback?.({
+        center: current.center,
+        movement: {
+          x: current.center.x - previous.center.x,
+          y: current.center.y - previous.center.y,
+        },
+        scale:
+          current.distance && previous.distance
+            ? current.distance / previous.distance
+            : 1,
+        event,
+      })
+      previous = current
+    }
+
+    const onPointerUp = (event: PointerEvent) => {
+      if (!pointers.delete(event.pointerId)) return
+      if (pointers.size > 0) {
+        // The center jumps when a pointer is released, which is not a movement
+        previous = getGesture()
+        return
+      }
+      target.removeEventListener('pointerdown', onPointerDown)
+      window.removeEventListener('pointermove', onPointerMove)
+      window.removeEventListener('pointerup', onPointerUp)
+      window.removeEventListener('pointercancel', onPointerUp)
+      resolve()
+    }
+
+    target.addEventListener('pointerdown', onPointerDown)
     window.addEventListener('pointermove', onPointerMove)
     window.addEventListener('pointerup', onPointerUp)
+    window.addEventListener('pointercancel', onPointerUp)
   })
 }
+
+/**
+ * longPressHelper
+ *
+ * Calls `callback` when the pointer of `e` is held down without moving, as a replacement of
+ * double-clicking on touch devices. Moving, releasing or pressing another pointer cancels it.
+ *
+ * @param e PointerEvent
+ * @param callback called once the pointer is held down for `LONG_PRESS_DURATION`
+ */
+export const longPressHelper = (e: PointerEvent, callback: () => void) => {
+  const start = {
+    x: e.clientX,
+    y: e.clientY,
+  }
+
+  const timeout = setTimeout(() => {
+    cleanup()
+    callback()
+  }, LONG_PRESS_DURATION)
+
+  const onPointerDown = (event: PointerEvent) => {
+    if (event.pointerId !== e.pointerId) cleanup()
+  }
+
+  const onPointerMove = (event: PointerEvent) => {
+    if (event.pointerId !== e.pointerId) return
+    const distance = Math.hypot(
+      event.clientX - start.x,
+      event.clientY - start.y
+    )
+    if (distance > LONG_PRESS_DISTANCE) cleanup()
+  }
+
+  const onPointerUp = (event: PointerEvent) => {
+    if (event.pointerId === e.pointerId) cleanup()
+  }
+
+  function cleanup() {
+    clearTimeout(timeout)
+    window.removeEventListener('pointerdown', onPointerDown)
+    window.removeEventListener('pointermove', onPointerMove)
+    window.removeEventListener('pointerup', onPointerUp)
+    window.removeEventListener('pointercancel', onPointerUp)
+  }
+
+  window.addEventListener('pointerdown', onPointerDown)
+  window.addEventListener('pointermove', onPointerMove)
+  window.addEventListener('pointerup', onPointerUp)
+  window.addEventListener('pointercancel', onPointerUp)
+}
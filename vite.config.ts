@@ -1,7 +1,11 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import solid from 'vite-plugin-solid'
 import tsconfigPaths from 'vite-tsconfig-paths'
 
 export default defineConfig({
   plugins: [solid(), tsconfigPaths()],
+  test: {
+    environment: 'node',
+  },
 })